@@ -0,0 +1,378 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Camera, Crosshair, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  GrayImage,
+  Point,
+  azimuthalProfile,
+  detectPatternCenter,
+  findRingMinima,
+  fitParticleSize,
+  toGrayImage,
+} from '@/lib/optics/analysis';
+import { Complex } from '@/lib/optics/complex';
+import { angleToRadius, radiusToAngle } from '@/lib/optics/geometry';
+import { ScatteringModel, scatteringModelLabels } from '@/lib/optics/models';
+import RadialProfileChart, { RadialProfile } from './RadialProfileChart';
+import styles from './LaserDiffraction.module.css';
+
+// Pattern drawn by the simulator, with its scale on the screen
+export interface SimulatedFrame {
+  image: ImageData;
+  millimetersPerPixel: number;
+}
+
+interface AnalyzePanelProps {
+  // Simulator settings used as starting values
+  wavelength: string;
+  distance: string;
+  model: ScatteringModel;
+  particleIndex: Complex;
+  mediumIndex: number;
+  // Current simulated pattern, or null when it is not on a flat screen
+  simulatedFrame: () => SimulatedFrame | null;
+}
+
+// Photos are downsampled to this many pixels on the long side before analysis
+const MAX_ANALYSIS_SIZE = 1200;
+
+const DISPLAY_WIDTH = 800;
+
+const AnalyzePanel = (props: AnalyzePanelProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [photo, setPhoto] = useState<HTMLCanvasElement | null>(null);
+  const [image, setImage] = useState<GrayImage | null>(null);
+  const [manualCenter, setManualCenter] = useState<Point | null>(null);
+  const [wavelength, setWavelength] = useState<string>(props.wavelength);
+  const [distance, setDistance] = useState<string>(props.distance);
+  // Millimeters on the screen per pixel of the original photo
+  const [pixelScale, setPixelScale] = useState<string>('0.1');
+  const [firstOrder, setFirstOrder] = useState<string>('1');
+  const [model, setModel] = useState<ScatteringModel>(props.model);
+  const [hoverTheta, setHoverTheta] = useState<number | null>(null);
+  // Analysis pixels per photo pixel
+  const [downsample, setDownsample] = useState<number>(1);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const loadPhoto = (file: File) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      const factor = Math.min(1, MAX_ANALYSIS_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * factor);
+      canvas.height = Math.round(img.height * factor);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      setPhoto(canvas);
+      setImage(toGrayImage(ctx.getImageData(0, 0, canvas.width, canvas.height)));
+      setDownsample(factor);
+      setManualCenter(null);
+      setLoadError(null);
+      URL.revokeObjectURL(url);
+    };
+    // Drop the previous photo so its fit is not shown as this one's
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      setPhoto(null);
+      setImage(null);
+      setManualCenter(null);
+      setLoadError(`Could not read ${file.name} as an image`);
+    };
+    img.src = url;
+  };
+
+  // Analyze the simulator's own pattern, at the settings that drew it
+  const loadSimulatedFrame = () => {
+    const frame = props.simulatedFrame();
+    if (!frame) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = frame.image.width;
+    canvas.height = frame.image.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.putImageData(frame.image, 0, 0);
+    setPhoto(canvas);
+    setImage(toGrayImage(frame.image));
+    setDownsample(1);
+    setPixelScale(frame.millimetersPerPixel.toPrecision(4));
+    setWavelength(props.wavelength);
+    setDistance(props.distance);
+    setManualCenter(null);
+    setLoadError(null);
+  };
+
+  const detectedCenter = useMemo(() => (image ? detectPatternCenter(image) : null), [image]);
+  const center = manualCenter ?? detectedCenter;
+
+  const profile = useMemo(
+    () => (image && center ? azimuthalProfile(image, center) : []),
+    [image, center]
+  );
+  const minimaRadii = useMemo(() => findRingMinima(profile), [profile]);
+
+  // Analysis pixel radius to scattering angle, R = D * tan(θ_air), refracted
+  // back into the medium the particles were dispersed in
+  const millimetersPerPixel = parseFloat(pixelScale) / downsample;
+  const distanceMm = parseFloat(distance) * 10;
+  const angleAt = (pixelRadius: number) =>
+    radiusToAngle('screen', distanceMm, pixelRadius * millimetersPerPixel, props.mediumIndex);
+  const radiusAt = (theta: number) => angleToRadius('screen', distanceMm, theta, props.mediumIndex) / millimetersPerPixel;
+
+  const fit = useMemo(() => {
+    if (minimaRadii.length === 0 || !(millimetersPerPixel > 0) || !(distanceMm > 0)) return null;
+    return fitParticleSize(
+      minimaRadii.map((r) => radiusToAngle('screen', distanceMm, r * millimetersPerPixel, props.mediumIndex)),
+      model,
+      {
+        wavelength: parseFloat(wavelength) * 1e-9,
+        particleSize: 0,
+        particleIndex: props.particleIndex,
+        mediumIndex: props.mediumIndex,
+      },
+      Math.max(1, parseInt(firstOrder) || 1)
+    );
+  }, [minimaRadii, millimetersPerPixel, distanceMm, model, wavelength, firstOrder, props.particleIndex, props.mediumIndex]);
+
+  // Photo with the center, the detected dark rings and the fitted ones
+  const displayScale = photo ? DISPLAY_WIDTH / photo.width : 1;
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !photo || !center) return;
+
+    canvas.width = DISPLAY_WIDTH;
+    canvas.height = Math.round(photo.height * displayScale);
+    ctx.drawImage(photo, 0, 0, canvas.width, canvas.height);
+
+    const cx = center.x * displayScale;
+    const cy = center.y * displayScale;
+    ctx.lineWidth = 1;
+
+    ctx.strokeStyle = 'rgba(0, 255, 255, 0.9)';
+    ctx.setLineDash([4, 4]);
+    for (const r of minimaRadii) {
+      ctx.beginPath();
+      ctx.arc(cx, cy, r * displayScale, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    ctx.setLineDash([]);
+    ctx.strokeStyle = 'rgba(0, 255, 0, 0.9)';
+    for (const theta of fit?.fittedAngles ?? []) {
+      ctx.beginPath();
+      ctx.arc(cx, cy, radiusAt(theta) * displayScale, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    if (hoverTheta !== null) {
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+      ctx.beginPath();
+      ctx.arc(cx, cy, radiusAt(hoverTheta) * displayScale, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    ctx.strokeStyle = 'rgba(255, 255, 0, 0.9)';
+    ctx.beginPath();
+    ctx.moveTo(cx - 10, cy);
+    ctx.lineTo(cx + 10, cy);
+    ctx.moveTo(cx, cy - 10);
+    ctx.lineTo(cx, cy + 10);
+    ctx.stroke();
+  });
+
+  // Clicking the photo places the center by hand
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const x = (e.clientX - rect.left - canvas.clientLeft) * canvas.width / canvas.clientWidth;
+    const y = (e.clientY - rect.top - canvas.clientTop) * canvas.height / canvas.clientHeight;
+    setManualCenter({ x: x / displayScale, y: y / displayScale });
+  };
+
+  const peak = Math.max(...profile, 1e-9);
+  const radialProfile: RadialProfile | null = profile.length > 1
+    ? {
+      theta: profile.map((_, r) => angleAt(r)),
+      radius: profile.map((_, r) => r * millimetersPerPixel),
+      total: profile.map((value) => value / peak),
+      components: [],
+    }
+    : null;
+
+  return (
+    <div>
+      <div className={styles.controls}>
+        <div className={styles.label}>
+          Diffraction Photo:
+          <Button variant="outline" asChild className={styles.screenshotButton}>
+            <label>
+              <Upload className={styles.icon} />
+              Upload JPEG/PNG
+              <input
+                type="file"
+                accept="image/png,image/jpeg"
+                hidden
+                onChange={(e) => e.target.files?.[0] && loadPhoto(e.target.files[0])}
+              />
+            </label>
+          </Button>
+          <Button variant="outline" onClick={loadSimulatedFrame} className={styles.screenshotButton}>
+            <Camera className={styles.icon} />
+            Use Simulated Pattern
+          </Button>
+        </div>
+
+        <label className={styles.label}>
+          Wavelength (nm):
+          <input
+            type="number"
+            value={wavelength}
+            onChange={(e) => setWavelength(e.target.value)}
+            className={styles.input}
+            min="400"
+            max="700"
+          />
+        </label>
+
+        <label className={styles.label}>
+          Screen Distance (cm):
+          <input
+            type="number"
+            value={distance}
+            onChange={(e) => setDistance(e.target.value)}
+            className={styles.input}
+            min="1"
+          />
+        </label>
+
+        <label className={styles.label}>
+          Pixel Scale (mm/px):
+          <input
+            type="number"
+            value={pixelScale}
+            onChange={(e) => setPixelScale(e.target.value)}
+            className={styles.input}
+            min="0"
+            step="0.01"
+          />
+        </label>
+
+        <label className={styles.label}>
+          First Dark Ring Order:
+          <input
+            type="number"
+            value={firstOrder}
+            onChange={(e) => setFirstOrder(e.target.value)}
+            className={styles.input}
+            min="1"
+            step="1"
+          />
+        </label>
+
+        <label className={styles.label}>
+          Fit Model:
+          <select
+            value={model}
+            onChange={(e) => setModel(e.target.value as ScatteringModel)}
+            className={styles.select}
+          >
+            <option value="fraunhofer">{scatteringModelLabels.fraunhofer}</option>
+            <option value="mie">{scatteringModelLabels.mie}</option>
+          </select>
+        </label>
+      </div>
+
+      {loadError && <p className={cn(styles.note, styles.warning)}>{loadError}</p>}
+
+      {!photo && (
+        <p className={styles.note}>
+          Upload a photo of a ring pattern on the screen. Measure the pixel scale from a ruler in the same shot.
+          Or take the simulator's current pattern, camera noise included, at its own scale (screen geometry only).
+        </p>
+      )}
+
+      {photo && (
+        <>
+          <div className={styles.canvasContainer}>
+            <canvas
+              ref={canvasRef}
+              className={cn(styles.canvas, styles.clickableCanvas)}
+              onClick={handleCanvasClick}
+            />
+          </div>
+
+          <div className={styles.screenshotControls}>
+            <Button
+              variant="outline"
+              onClick={() => setManualCenter(null)}
+              disabled={!manualCenter}
+              className={styles.screenshotButton}
+            >
+              <Crosshair className={styles.icon} />
+              Auto-Detect Center
+            </Button>
+          </div>
+          <p className={styles.note}>
+            Center ({center?.x.toFixed(1)}, {center?.y.toFixed(1)}) px, {manualCenter ? 'set by hand' : 'detected'}.
+            Click the photo to move it. Dashed: measured dark rings; solid: fitted model.
+          </p>
+
+          {radialProfile && (
+            <RadialProfileChart
+              profile={radialProfile}
+              showComponents={false}
+              hoverTheta={hoverTheta}
+              onHoverTheta={setHoverTheta}
+              extrema={{ minima: minimaRadii.map(Math.round), maxima: [] }}
+              title="Measured Radial Profile (azimuthal average)"
+            />
+          )}
+
+          <div className={styles.chartPanel}>
+            <h2 className={styles.chartTitle}>Particle Size Estimate</h2>
+            {fit ? (
+              <>
+                <p className={styles.result}>
+                  d = {fit.diameter.toFixed(2)} µm
+                  {fit.lower !== null && fit.upper !== null
+                    ? ` (95% CI ${fit.lower.toFixed(2)}–${fit.upper.toFixed(2)} µm)`
+                    : ' (at least two dark rings are needed for a confidence interval)'}
+                </p>
+                <table className={styles.resultTable}>
+                  <thead>
+                    <tr>
+                      <th>Ring</th>
+                      <th>Radius (mm)</th>
+                      <th>Measured θ (°)</th>
+                      <th>Fitted θ (°)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {fit.measuredAngles.map((theta, k) => (
+                      <tr key={k}>
+                        <td>{fit.firstOrder + k}</td>
+                        <td>{(minimaRadii[fit.measuredIndices[k]] * millimetersPerPixel).toFixed(2)}</td>
+                        <td>{(theta * 180 / Math.PI).toFixed(3)}</td>
+                        <td>{fit.fittedAngles[k] !== undefined ? (fit.fittedAngles[k] * 180 / Math.PI).toFixed(3) : '–'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            ) : (
+              <p className={styles.note}>No dark rings found. Check the center and the pixel scale.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyzePanel;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { cn } from "@/lib/utils";
+import { Switch } from "@/components/ui/switch";
+import { BeamSettings, Illumination, beamDivergence, mSquaredForDivergence } from '@/lib/optics/beam';
+import styles from './LaserDiffraction.module.css';
+
+interface BeamPanelProps {
+  settings: BeamSettings;
+  onChange: (settings: BeamSettings) => void;
+  // Vacuum wavelength (m): the divergence is quoted outside the sample cell
+  wavelength: number;
+  illumination: Illumination;
+}
+
+// Laser source: waist, divergence and M² are tied by θ_b = M²·λ / (π·w0), so
+// editing the divergence changes M² at the current waist
+const BeamPanel = ({ settings, onChange, wavelength, illumination }: BeamPanelProps) => {
+  const divergence = beamDivergence(settings, wavelength);
+  const saturated = illumination.peak > 1 && illumination.stopRadius < illumination.spotRadius * 1.5;
+
+  return (
+    <div className={styles.chartPanel}>
+      <div className={styles.chartHeader}>
+        <h2 className={styles.chartTitle}>Laser Beam</h2>
+        <label className={styles.inlineLabel}>
+          <Switch checked={settings.enabled} onCheckedChange={(enabled) => onChange({ ...settings, enabled })} />
+          Finite Gaussian beam
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className={styles.displayControls}>
+            <label className={styles.label}>
+              Waist Diameter (mm):
+              <input
+                type="number"
+                value={settings.waistDiameter}
+                onChange={(e) => onChange({ ...settings, waistDiameter: parseFloat(e.target.value) })}
+                className={styles.input}
+                min="0.1"
+                max="20"
+                step="0.1"
+              />
+            </label>
+
+            <label className={styles.label}>
+              Divergence (mrad):
+              <input
+                type="number"
+                value={Number((divergence * 1000).toPrecision(3))}
+                onChange={(e) => onChange({
+                  ...settings,
+                  mSquared: mSquaredForDivergence(settings, wavelength, (parseFloat(e.target.value) || 0) / 1000),
+                })}
+                className={styles.input}
+                min="0"
+                step="0.1"
+              />
+            </label>
+
+            <label className={styles.label}>
+              M²:
+              <input
+                type="number"
+                value={Number(settings.mSquared.toPrecision(3))}
+                onChange={(e) => onChange({ ...settings, mSquared: Math.max(1, parseFloat(e.target.value) || 1) })}
+                className={styles.input}
+                min="1"
+                step="0.1"
+              />
+            </label>
+
+            <label className={styles.label}>
+              Beam Stop Diameter (mm):
+              <input
+                type="number"
+                value={settings.stopDiameter}
+                onChange={(e) => onChange({ ...settings, stopDiameter: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className={styles.input}
+                min="0"
+                step="0.1"
+              />
+            </label>
+          </div>
+
+          <p className={cn(styles.note, saturated && styles.warning)}>
+            The undiffracted beam reaches the detector as a spot {(illumination.spotRadius * 2000).toPrecision(2)} mm
+            across, {illumination.peak.toExponential(1)} times brighter than the forward diffraction peak.
+            {saturated
+              ? ' It saturates the center of the pattern; a beam stop a little wider than the spot hides it.'
+              : illumination.stopRadius > 0 && ' The beam stop blocks it along with the innermost diffraction.'}
+            {' '}The divergence also smears each ring over ±{(divergence * 1000).toPrecision(2)} mrad.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BeamPanel;
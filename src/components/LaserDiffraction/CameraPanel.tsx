@@ -0,0 +1,112 @@
+import React from 'react';
+import { Shuffle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { CameraSettings, CameraStatistics, MAX_BIT_DEPTH, MIN_BIT_DEPTH } from '@/lib/optics/camera';
+import styles from './LaserDiffraction.module.css';
+
+interface CameraPanelProps {
+  settings: CameraSettings;
+  onChange: (settings: CameraSettings) => void;
+  readout: CameraStatistics;
+}
+
+// Pixels clipped before the note warns; the undiffracted spot or the forward
+// peak alone stays below this
+const SATURATION_WARNING = 0.01;
+
+type NumericSetting = Exclude<keyof CameraSettings, 'enabled'>;
+
+interface FieldSpec {
+  key: NumericSetting;
+  label: string;
+  min: number;
+  step: number;
+  max?: number;
+}
+
+const fields: FieldSpec[] = [
+  { key: 'exposure', label: 'Exposure (ms)', min: 0, step: 1 },
+  { key: 'peakSignal', label: 'Forward Peak Signal (e⁻/ms)', min: 0, step: 100 },
+  { key: 'background', label: 'Stray Light (e⁻/px/ms)', min: 0, step: 0.1 },
+  { key: 'darkCurrent', label: 'Dark Current (e⁻/px/s)', min: 0, step: 10 },
+  { key: 'readNoise', label: 'Read Noise (e⁻ RMS)', min: 0, step: 0.5 },
+  { key: 'fullWell', label: 'Full Well (e⁻)', min: 1, step: 1000 },
+  { key: 'gain', label: 'Gain (DN/e⁻)', min: 0, step: 0.05 },
+  { key: 'bitDepth', label: 'Bit Depth', min: MIN_BIT_DEPTH, max: MAX_BIT_DEPTH, step: 1 },
+];
+
+// Virtual camera after the ideal pattern: exposure, noise sources, full well,
+// gain and ADC, with a seed so the same noise can be drawn again
+const CameraPanel = ({ settings, onChange, readout }: CameraPanelProps) => {
+  const saturated = readout.saturated > SATURATION_WARNING;
+
+  return (
+    <div className={styles.chartPanel}>
+      <div className={styles.chartHeader}>
+        <h2 className={styles.chartTitle}>Camera</h2>
+        <label className={styles.inlineLabel}>
+          <Switch checked={settings.enabled} onCheckedChange={(enabled) => onChange({ ...settings, enabled })} />
+          Simulate detector noise
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className={styles.displayControls}>
+            {fields.map(({ key, label, min, max, step }) => (
+              <label key={key} className={styles.label}>
+                {label}:
+                <input
+                  type="number"
+                  value={settings[key]}
+                  onChange={(e) => onChange({ ...settings, [key]: Math.max(min, parseFloat(e.target.value) || 0) })}
+                  className={styles.input}
+                  min={min}
+                  max={max}
+                  step={step}
+                />
+              </label>
+            ))}
+
+            <label className={styles.label}>
+              Seed:
+              <input
+                type="number"
+                value={settings.seed}
+                onChange={(e) => onChange({ ...settings, seed: parseInt(e.target.value) || 0 })}
+                className={styles.input}
+                min="0"
+              />
+            </label>
+          </div>
+
+          <div className={styles.screenshotControls}>
+            <Button
+              variant="outline"
+              onClick={() => onChange({ ...settings, seed: Math.floor(Math.random() * 1e6) })}
+              className={styles.screenshotButton}
+            >
+              <Shuffle className={styles.icon} />
+              New Noise
+            </Button>
+          </div>
+
+          <p className={cn(styles.note, saturated && styles.warning)}>
+            Pixels saturate above {readout.saturationIntensity.toExponential(1)} of the forward peak, and signal
+            sinks into the noise of stray light, dark current and readout below{' '}
+            {readout.noiseIntensity.toExponential(1)}, a usable range of{' '}
+            {(readout.saturationIntensity / readout.noiseIntensity).toExponential(1)}.
+            {saturated
+              ? ` ${(readout.saturated * 100).toFixed(1)}% of the pixels are clipped; shorten the exposure or block the center.`
+              : ' The display mapping shows the digital frame relative to the ADC\'s full scale.'}
+            {' '}The same seed always draws the same noise; the Analyze tab can fit this frame.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CameraPanel;
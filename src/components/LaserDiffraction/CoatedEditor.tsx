@@ -0,0 +1,127 @@
+import React from 'react';
+import { CoatedParticle, coatedOuterDiameter } from '@/lib/optics/coated';
+import { Material, refractiveIndexAt } from '@/lib/optics/materials';
+import styles from './LaserDiffraction.module.css';
+
+interface CoatedEditorProps {
+  particle: CoatedParticle;
+  materials: Material[];
+  // Laser wavelength (nm) at which library indices are taken
+  wavelength: number;
+  onChange: (particle: CoatedParticle) => void;
+}
+
+type Layer = 'coreIndex' | 'shellIndex';
+
+const layerLabels: Record<Layer, string> = {
+  coreIndex: 'Core',
+  shellIndex: 'Shell',
+};
+
+// Core and shell of a coated sphere. Each layer's index can be typed in or
+// copied from a library material; the picker shows which one it matches.
+const CoatedEditor = ({ particle, materials, wavelength, onChange }: CoatedEditorProps) => {
+  const outer = coatedOuterDiameter(particle);
+  const coreVolume = outer > 0 ? Math.pow(Math.max(0, particle.coreDiameter) / outer, 3) : 0;
+
+  const updateIndex = (layer: Layer, changes: Partial<CoatedParticle[Layer]>) =>
+    onChange({ ...particle, [layer]: { ...particle[layer], ...changes } });
+
+  const materialIndex = (material: Material) => {
+    const { real, imag } = refractiveIndexAt(material, wavelength);
+    return { real: Number(real.toFixed(4)), imag: Number(imag.toPrecision(4)) };
+  };
+
+  const matchingMaterial = (layer: Layer) =>
+    materials.find((m) => {
+      const { real, imag } = materialIndex(m);
+      return real === particle[layer].real && imag === particle[layer].imag;
+    })?.id ?? 'custom';
+
+  return (
+    <>
+      <div className={styles.displayControls}>
+        <label className={styles.label}>
+          Core Diameter (µm):
+          <input
+            type="number"
+            value={particle.coreDiameter}
+            onChange={(e) => onChange({ ...particle, coreDiameter: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className={styles.input}
+            min="0"
+            max="100"
+            step="0.1"
+          />
+        </label>
+
+        <label className={styles.label}>
+          Shell Thickness (µm):
+          <input
+            type="number"
+            value={particle.shellThickness}
+            onChange={(e) => onChange({ ...particle, shellThickness: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className={styles.input}
+            min="0"
+            max="50"
+            step="0.05"
+          />
+        </label>
+      </div>
+
+      {(Object.keys(layerLabels) as Layer[]).map((layer) => (
+        <div key={layer} className={styles.displayControls}>
+          <label className={styles.label}>
+            {layerLabels[layer]} Material:
+            <select
+              value={matchingMaterial(layer)}
+              onChange={(e) => {
+                const material = materials.find((m) => m.id === e.target.value);
+                if (material) updateIndex(layer, materialIndex(material));
+              }}
+              className={styles.select}
+            >
+              {materials.map((material) => (
+                <option key={material.id} value={material.id}>{material.name}</option>
+              ))}
+              <option value="custom">Custom</option>
+            </select>
+          </label>
+
+          <label className={styles.label}>
+            {layerLabels[layer]} Index (n):
+            <input
+              type="number"
+              value={particle[layer].real}
+              onChange={(e) => updateIndex(layer, { real: parseFloat(e.target.value) || 1 })}
+              className={styles.input}
+              min="1"
+              max="3"
+              step="0.01"
+            />
+          </label>
+
+          <label className={styles.label}>
+            {layerLabels[layer]} Absorption (k):
+            <input
+              type="number"
+              value={particle[layer].imag}
+              onChange={(e) => updateIndex(layer, { imag: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className={styles.input}
+              min="0"
+              max="5"
+              step="0.001"
+            />
+          </label>
+        </div>
+      ))}
+
+      <p className={styles.note}>
+        Outer diameter {outer.toFixed(2)} µm, {(coreVolume * 100).toFixed(0)}% core by volume. The pattern uses
+        layered-sphere Mie theory; the profile chart overlays a homogeneous sphere of the core material with the same
+        outer diameter.
+      </p>
+    </>
+  );
+};
+
+export default CoatedEditor;
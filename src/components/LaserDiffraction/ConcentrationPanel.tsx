@@ -0,0 +1,93 @@
+import React from 'react';
+import { cn } from "@/lib/utils";
+import { Switch } from "@/components/ui/switch";
+import { ConcentrationSettings, RECOMMENDED_OBSCURATION, singleScatteringShare } from '@/lib/optics/concentration';
+import styles from './LaserDiffraction.module.css';
+
+interface ConcentrationPanelProps {
+  settings: ConcentrationSettings;
+  onChange: (settings: ConcentrationSettings) => void;
+  opticalDepth: number;
+  obscuration: number;
+  // Whether the current sample renders through the radial models, where
+  // multiple scattering is applied
+  distorts: boolean;
+}
+
+// The gauge runs from 0 to this obscuration; anything above pins the needle
+const GAUGE_MAX = 0.5;
+
+const percent = (value: number) => `${Math.min(100, (value / GAUGE_MAX) * 100)}%`;
+
+// Volume concentration and path length, with the resulting laser
+// obscuration on a gauge marked with the recommended band
+const ConcentrationPanel = ({ settings, onChange, opticalDepth, obscuration, distorts }: ConcentrationPanelProps) => {
+  const [low, high] = RECOMMENDED_OBSCURATION;
+  const multiple = 1 - singleScatteringShare(opticalDepth);
+
+  return (
+    <div className={styles.chartPanel}>
+      <div className={styles.chartHeader}>
+        <h2 className={styles.chartTitle}>Sample Concentration</h2>
+        <label className={styles.inlineLabel}>
+          <Switch checked={settings.enabled} onCheckedChange={(enabled) => onChange({ ...settings, enabled })} />
+          Model obscuration
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className={styles.displayControls}>
+            <label className={styles.label}>
+              Volume Concentration (%):
+              <input
+                type="number"
+                value={settings.volumeFraction}
+                onChange={(e) => onChange({ ...settings, volumeFraction: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className={styles.input}
+                min="0"
+                max="10"
+                step="0.001"
+              />
+            </label>
+
+            <label className={styles.label}>
+              Path Length (mm):
+              <input
+                type="number"
+                value={settings.pathLength}
+                onChange={(e) => onChange({ ...settings, pathLength: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className={styles.input}
+                min="0.1"
+                max="50"
+                step="0.5"
+              />
+            </label>
+          </div>
+
+          <div className={styles.gauge}>
+            <div className={styles.gaugeBand} style={{ left: percent(low), width: `calc(${percent(high)} - ${percent(low)})` }} />
+            <div className={cn(styles.gaugeFill, obscuration > high && styles.gaugeOver)} style={{ width: percent(obscuration) }} />
+          </div>
+          <div className={styles.histogramAxis}>
+            <span>0%</span>
+            <span>Obscuration {(obscuration * 100).toFixed(1)}% (recommended {low * 100}–{high * 100}%)</span>
+            <span>≥ {GAUGE_MAX * 100}%</span>
+          </div>
+
+          <p className={cn(styles.note, (obscuration < low || obscuration > high) && styles.warning)}>
+            Optical depth τ = {opticalDepth.toFixed(3)}: {(multiple * 100).toFixed(0)}% of the scattered light was
+            scattered more than once.
+            {obscuration < low && ' Too little sample: the scattered signal is weak against detector noise.'}
+            {obscuration > high && (distorts
+              ? ' Too much sample: repeated scattering spreads light to wider angles, filling in the dark rings and'
+                + ' broadening the pattern, so the inversion reports particles that are too small.'
+              : ' Too much sample for reliable sizing; multiple scattering is only simulated for the radial models.')}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ConcentrationPanel;
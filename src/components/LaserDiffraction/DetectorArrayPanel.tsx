@@ -0,0 +1,175 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Download } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Switch } from "@/components/ui/switch";
+import {
+  DetectorArray,
+  DetectorRing,
+  DetectorSpacing,
+  detectorReadingsCsv,
+  detectorSpacingLabels,
+} from '@/lib/optics/detectors';
+import { SizeStatistics } from '@/lib/optics/statistics';
+import styles from './LaserDiffraction.module.css';
+
+interface DetectorArrayPanelProps {
+  array: DetectorArray;
+  onChange: (array: DetectorArray) => void;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  rings: DetectorRing[];
+  // Integrated signal per ring; null until the array is enabled
+  signals: number[] | null;
+  // Size statistics of the sample, written above the readings
+  statistics: SizeStatistics | null;
+}
+
+const chartConfig = {
+  signal: {
+    label: 'Signal',
+    color: '#4363d8',
+  },
+} satisfies ChartConfig;
+
+const DetectorArrayPanel = ({
+  array,
+  onChange,
+  enabled,
+  onEnabledChange,
+  rings,
+  signals,
+  statistics,
+}: DetectorArrayPanelProps) => {
+  const data = (signals ?? []).map((signal, i) => ({
+    detector: i + 1,
+    signal,
+    radius: `${rings[i].innerRadius.toFixed(2)}–${rings[i].outerRadius.toFixed(2)} mm`,
+  }));
+
+  const exportCsv = () => {
+    if (!signals) return;
+    const blob = new Blob([detectorReadingsCsv(rings, signals, statistics)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = `laser-diffraction-detectors-${Date.now()}.csv`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={styles.chartPanel}>
+      <div className={styles.chartHeader}>
+        <h2 className={styles.chartTitle}>Ring Detector Array</h2>
+        <label className={styles.inlineLabel}>
+          <Switch checked={enabled} onCheckedChange={onEnabledChange} />
+          Show detectors
+        </label>
+      </div>
+
+      {enabled && (
+        <>
+          <div className={styles.displayControls}>
+            <label className={styles.label}>
+              Rings:
+              <input
+                type="number"
+                value={array.count}
+                onChange={(e) => onChange({ ...array, count: Math.max(1, parseInt(e.target.value) || 1) })}
+                className={styles.input}
+                min="1"
+                max="100"
+              />
+            </label>
+
+            <label className={styles.label}>
+              Inner Radius (mm):
+              <input
+                type="number"
+                value={array.innerRadius}
+                onChange={(e) => onChange({ ...array, innerRadius: parseFloat(e.target.value) })}
+                className={styles.input}
+                min="0.01"
+                step="0.1"
+              />
+            </label>
+
+            <label className={styles.label}>
+              Outer Radius (mm):
+              <input
+                type="number"
+                value={array.outerRadius}
+                onChange={(e) => onChange({ ...array, outerRadius: parseFloat(e.target.value) })}
+                className={styles.input}
+                min="1"
+              />
+            </label>
+
+            <label className={styles.label}>
+              Spacing:
+              <select
+                value={array.spacing}
+                onChange={(e) => onChange({ ...array, spacing: e.target.value as DetectorSpacing })}
+                className={styles.select}
+              >
+                {(Object.keys(detectorSpacingLabels) as DetectorSpacing[]).map((spacing) => (
+                  <option key={spacing} value={spacing}>{detectorSpacingLabels[spacing]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {data.length > 0 ? (
+            <ChartContainer config={chartConfig} className={cn(styles.chart, 'aspect-auto')}>
+              <BarChart data={data} margin={{ top: 8, right: 8, bottom: 16, left: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="detector"
+                  tickLine={false}
+                  interval="preserveStartEnd"
+                  label={{ value: 'Detector', position: 'insideBottom', offset: -8 }}
+                />
+                <YAxis
+                  scale="log"
+                  domain={['auto', 'auto']}
+                  allowDataOverflow
+                  tickLine={false}
+                  width={56}
+                  tickFormatter={(value: number) => value.toExponential(0)}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => `Detector ${payload?.[0]?.payload?.detector} (${payload?.[0]?.payload?.radius})`}
+                      formatter={(value) => <span>Signal: {(value as number).toExponential(3)}</span>}
+                    />
+                  }
+                />
+                <Bar dataKey="signal" fill="var(--color-signal)" radius={2} isAnimationActive={false} />
+              </BarChart>
+            </ChartContainer>
+          ) : (
+            <p className={styles.note}>The inner radius must be positive and smaller than the outer radius.</p>
+          )}
+
+          <div className={styles.screenshotControls}>
+            <Button variant="outline" onClick={exportCsv} disabled={!signals} className={styles.screenshotButton}>
+              <Download className={styles.icon} />
+              Export Readings (CSV)
+            </Button>
+          </div>
+          <p className={styles.note}>
+            Signals are diffracted intensity integrated over each ring's area; the unscattered beam passes
+            through the central hole of the array. Select "Detector Readings" in the inversion
+            panel to recover a size distribution from them.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DetectorArrayPanel;
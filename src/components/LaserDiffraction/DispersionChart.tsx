@@ -0,0 +1,73 @@
+import React from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { cn } from "@/lib/utils";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Dispersion, RefractiveIndex, evaluateDispersion } from '@/lib/optics/dispersion';
+import styles from './LaserDiffraction.module.css';
+
+interface DispersionChartProps {
+  refractiveIndex: RefractiveIndex;
+  dispersion?: Dispersion;
+}
+
+// Wavelengths the simulator accepts (nm)
+const WAVELENGTHS = Array.from({ length: 61 }, (_, i) => 400 + 5 * i);
+
+const chartConfig: ChartConfig = {
+  n: { label: 'n', color: '#4363d8' },
+  k: { label: 'k', color: '#e6194b' },
+};
+
+// n on the left axis and k on the right across the visible spectrum
+const DispersionChart = ({ refractiveIndex, dispersion }: DispersionChartProps) => {
+  const data = WAVELENGTHS.map((wavelength) => {
+    const { real, imag } = dispersion ? evaluateDispersion(dispersion, refractiveIndex, wavelength) : refractiveIndex;
+    return { wavelength, n: Number.isFinite(real) ? real : null, k: Number.isFinite(imag) ? imag : null };
+  });
+
+  return (
+    <ChartContainer config={chartConfig} className={cn(styles.chart, 'aspect-auto')}>
+      <LineChart data={data} margin={{ top: 8, right: 8, bottom: 16, left: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="wavelength"
+          type="number"
+          domain={[400, 700]}
+          tickLine={false}
+          label={{ value: 'Wavelength (nm)', position: 'insideBottom', offset: -8 }}
+        />
+        <YAxis
+          yAxisId="n"
+          domain={['auto', 'auto']}
+          tickLine={false}
+          width={56}
+          tickFormatter={(value: number) => value.toFixed(3)}
+        />
+        <YAxis
+          yAxisId="k"
+          orientation="right"
+          domain={[0, 'auto']}
+          tickLine={false}
+          width={56}
+          tickFormatter={(value: number) => value.toPrecision(2)}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => `λ = ${payload?.[0]?.payload?.wavelength} nm`}
+              formatter={(value, name) => (
+                <span>
+                  {chartConfig[name as string]?.label} = {(value as number).toPrecision(5)}
+                </span>
+              )}
+            />
+          }
+        />
+        <Line yAxisId="n" dataKey="n" stroke="var(--color-n)" dot={false} strokeWidth={2} isAnimationActive={false} />
+        <Line yAxisId="k" dataKey="k" stroke="var(--color-k)" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+export default DispersionChart;
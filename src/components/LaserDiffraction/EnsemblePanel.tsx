@@ -0,0 +1,109 @@
+import React from 'react';
+import { Shuffle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { EnsembleSettings, MAX_REALIZATIONS } from '@/lib/optics/speckle';
+import styles from './LaserDiffraction.module.css';
+
+interface EnsemblePanelProps {
+  settings: EnsembleSettings;
+  onChange: (settings: EnsembleSettings) => void;
+  // Scattering angle (rad) beyond which the speckle grid cannot follow, when
+  // the canvas reaches it
+  angleLimit: number | null;
+}
+
+// Random particle cloud: particle count, beam size, seed and the number of
+// realizations averaged together
+const EnsemblePanel = ({ settings, onChange, angleLimit }: EnsemblePanelProps) => (
+  <div className={styles.chartPanel}>
+    <div className={styles.chartHeader}>
+      <h2 className={styles.chartTitle}>Random Particle Cloud</h2>
+      <label className={styles.inlineLabel}>
+        <Switch checked={settings.enabled} onCheckedChange={(enabled) => onChange({ ...settings, enabled })} />
+        Simulate speckle
+      </label>
+    </div>
+
+    {settings.enabled && (
+      <>
+        <div className={styles.displayControls}>
+          <label className={styles.label}>
+            Particles:
+            <input
+              type="number"
+              value={settings.particleCount}
+              onChange={(e) => onChange({ ...settings, particleCount: Math.max(1, parseInt(e.target.value) || 1) })}
+              className={styles.input}
+              min="1"
+              max="2000"
+            />
+          </label>
+
+          <label className={styles.label}>
+            Beam Diameter (mm):
+            <input
+              type="number"
+              value={settings.beamDiameter}
+              onChange={(e) => onChange({ ...settings, beamDiameter: parseFloat(e.target.value) })}
+              className={styles.input}
+              min="0.1"
+              max="10"
+              step="0.1"
+            />
+          </label>
+
+          <label className={styles.label}>
+            Realizations Averaged:
+            <input
+              type="number"
+              value={settings.realizations}
+              onChange={(e) => onChange({
+                ...settings,
+                realizations: Math.min(MAX_REALIZATIONS, Math.max(1, parseInt(e.target.value) || 1)),
+              })}
+              className={styles.input}
+              min="1"
+              max={MAX_REALIZATIONS}
+            />
+          </label>
+
+          <label className={styles.label}>
+            Seed:
+            <input
+              type="number"
+              value={settings.seed}
+              onChange={(e) => onChange({ ...settings, seed: parseInt(e.target.value) || 0 })}
+              className={styles.input}
+              min="0"
+            />
+          </label>
+        </div>
+
+        <div className={styles.screenshotControls}>
+          <Button
+            variant="outline"
+            onClick={() => onChange({ ...settings, seed: Math.floor(Math.random() * 1e6) })}
+            className={styles.screenshotButton}
+          >
+            <Shuffle className={styles.icon} />
+            New Arrangement
+          </Button>
+        </div>
+
+        <p className={styles.note}>
+          Particles sit at random positions inside the beam and their far fields add coherently (Fraunhofer
+          amplitudes), so one arrangement gives a speckled ring pattern with grains about λ / beam diameter
+          across. Averaging more realizations washes the speckle out into the smooth profile; the same seed
+          always reproduces the same arrangement.
+          {angleLimit !== null && (
+            <> Beyond {(angleLimit * 1000).toFixed(0)} mrad the position grid cannot resolve the pattern;
+              reduce the beam diameter or zoom in to see the outer region.</>
+          )}
+        </p>
+      </>
+    )}
+  </div>
+);
+
+export default EnsemblePanel;
@@ -0,0 +1,112 @@
+import React from 'react';
+import {
+  DetectorGeometry,
+  detectorDescriptions,
+  detectorFormulas,
+  detectorGeometryLabels,
+} from '@/lib/optics/geometry';
+import styles from './LaserDiffraction.module.css';
+
+interface GeometrySchematicProps {
+  geometry: DetectorGeometry;
+}
+
+// Drawing coordinates: beam along y = AXIS, detector plane at DETECTOR_X
+const WIDTH = 420;
+const HEIGHT = 190;
+const AXIS = 95;
+const LENS_X = 230;
+const DETECTOR_X = 380;
+// Scattering angle drawn, exaggerated for legibility
+const RAY_ANGLE = 0.2;
+// Two particles at different places in the beam
+const particles = [
+  { x: 60, y: AXIS - 12 },
+  { x: 110, y: AXIS + 10 },
+];
+const particleColors = ['#e6194b', '#3cb44b'];
+
+const GeometrySchematic = ({ geometry }: GeometrySchematicProps) => {
+  const slope = Math.tan(RAY_ANGLE);
+  const focalLength = DETECTOR_X - LENS_X;
+
+  // Ray paths (upper and lower half) from each particle to the detector
+  const rays = particles.flatMap((p, i) => [-1, 1].map((side) => {
+    const color = particleColors[i];
+    if (geometry === 'lens') {
+      // Parallel rays at θ all meet the focal plane at f·θ off axis
+      const lensY = p.y + side * slope * (LENS_X - p.x);
+      const focusY = AXIS + side * focalLength * RAY_ANGLE;
+      return { color, points: [[p.x, p.y], [LENS_X, lensY], [DETECTOR_X, focusY]] };
+    }
+    if (geometry === 'curved') {
+      // Detector arc is centered on the first particle
+      const radius = DETECTOR_X - particles[0].x;
+      const center = particles[0];
+      // Where a ray from p at angle θ meets the arc
+      const dx = Math.cos(RAY_ANGLE);
+      const dy = side * Math.sin(RAY_ANGLE);
+      const ox = p.x - center.x;
+      const oy = p.y - center.y;
+      const b = ox * dx + oy * dy;
+      const t = -b + Math.sqrt(b * b - (ox * ox + oy * oy - radius * radius));
+      return { color, points: [[p.x, p.y], [p.x + t * dx, p.y + t * dy]] };
+    }
+    return { color, points: [[p.x, p.y], [DETECTOR_X, p.y + side * slope * (DETECTOR_X - p.x)]] };
+  }));
+
+  const arcRadius = DETECTOR_X - particles[0].x;
+  const arcHalfAngle = 0.26;
+  const detector = geometry === 'curved'
+    ? (
+      <path
+        d={`M ${particles[0].x + arcRadius * Math.cos(arcHalfAngle)} ${particles[0].y - arcRadius * Math.sin(arcHalfAngle)}
+          A ${arcRadius} ${arcRadius} 0 0 1 ${particles[0].x + arcRadius * Math.cos(arcHalfAngle)} ${particles[0].y + arcRadius * Math.sin(arcHalfAngle)}`}
+        fill="none"
+        stroke="#333"
+        strokeWidth={3}
+      />
+    )
+    : <line x1={DETECTOR_X} y1={10} x2={DETECTOR_X} y2={HEIGHT - 10} stroke="#333" strokeWidth={3} />;
+
+  return (
+    <div className={styles.chartPanel}>
+      <h2 className={styles.chartTitle}>
+        Geometry: {detectorGeometryLabels[geometry]} ({detectorFormulas[geometry]})
+      </h2>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className={styles.schematic} role="img">
+        <rect x={0} y={AXIS - 18} width={DETECTOR_X} height={36} fill="rgba(255, 0, 0, 0.08)" />
+        <line x1={0} y1={AXIS} x2={DETECTOR_X} y2={AXIS} stroke="#c00" strokeDasharray="4 3" />
+        <text x={4} y={AXIS - 22} className={styles.schematicLabel}>laser</text>
+
+        {geometry === 'lens' && (
+          <>
+            <ellipse cx={LENS_X} cy={AXIS} rx={7} ry={70} fill="rgba(100, 160, 255, 0.3)" stroke="#4a7bd0" />
+            <text x={LENS_X - 10} y={HEIGHT - 2} className={styles.schematicLabel}>lens</text>
+            <text x={(LENS_X + DETECTOR_X) / 2 - 4} y={HEIGHT - 2} className={styles.schematicLabel}>f</text>
+          </>
+        )}
+
+        {rays.map(({ color, points }, i) => (
+          <polyline
+            key={i}
+            points={points.map(([x, y]) => `${x},${y}`).join(' ')}
+            fill="none"
+            stroke={color}
+            strokeWidth={1.5}
+          />
+        ))}
+
+        {particles.map((p, i) => (
+          <circle key={i} cx={p.x} cy={p.y} r={4} fill={particleColors[i]} />
+        ))}
+
+        {detector}
+        <text x={DETECTOR_X - 40} y={HEIGHT - 2} className={styles.schematicLabel}>detector</text>
+      </svg>
+      <p className={styles.note}>{detectorDescriptions[geometry]}</p>
+    </div>
+  );
+};
+
+export default GeometrySchematic;
@@ -0,0 +1,61 @@
+import React, { useRef } from 'react';
+import { HISTOGRAM_SIZES } from '@/lib/optics/distribution';
+import styles from './LaserDiffraction.module.css';
+
+interface HistogramEditorProps {
+  values: number[];
+  onChange: (values: number[]) => void;
+}
+
+// Draw a size histogram by clicking or dragging across the bars.
+// Each bar's height sets the relative weight of its size bin.
+const HistogramEditor = ({ values, onChange }: HistogramEditorProps) => {
+  const areaRef = useRef<HTMLDivElement>(null);
+  const drawingRef = useRef(false);
+
+  const paint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const area = areaRef.current;
+    if (!area) return;
+
+    const rect = area.getBoundingClientRect();
+    const bin = Math.floor(((e.clientX - rect.left) / rect.width) * HISTOGRAM_SIZES.length);
+    if (bin < 0 || bin >= HISTOGRAM_SIZES.length) return;
+
+    const height = Math.min(1, Math.max(0, 1 - (e.clientY - rect.top) / rect.height));
+    const next = HISTOGRAM_SIZES.map((_, i) => values[i] ?? 0);
+    next[bin] = +height.toFixed(3);
+    onChange(next);
+  };
+
+  return (
+    <div className={styles.histogramEditor}>
+      <div
+        ref={areaRef}
+        className={styles.histogramArea}
+        onPointerDown={(e) => {
+          drawingRef.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          paint(e);
+        }}
+        onPointerMove={(e) => drawingRef.current && paint(e)}
+        onPointerUp={() => { drawingRef.current = false; }}
+      >
+        {HISTOGRAM_SIZES.map((size, i) => (
+          <div
+            key={size}
+            className={styles.histogramBar}
+            style={{ height: `${(values[i] ?? 0) * 100}%` }}
+            title={`${size.toFixed(1)} µm`}
+          />
+        ))}
+      </div>
+      <div className={styles.histogramAxis}>
+        <span>1 µm</span>
+        <span>Draw the size histogram</span>
+        <span>200 µm</span>
+      </div>
+    </div>
+  );
+};
+
+export default HistogramEditor;
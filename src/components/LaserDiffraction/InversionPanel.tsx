@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Slider } from "@/components/ui/slider";
+import { SizeWeighting } from '@/lib/optics/distribution';
+import {
+  InversionResult,
+  InversionSettings,
+  MeasuredProfile,
+  defaultInversionSettings,
+  invertProfile,
+  parseProfileCsv,
+} from '@/lib/optics/inversion';
+import { ScatteringModel, ScatteringParams, scatteringModelLabels } from '@/lib/optics/models';
+import { RadialProfile } from './RadialProfileChart';
+import SizeDistributionChart from './SizeDistributionChart';
+import SizeStatisticsPanel from './SizeStatisticsPanel';
+import styles from './LaserDiffraction.module.css';
+
+type ProfileSource = 'simulated' | 'detectors' | 'imported';
+
+interface InversionPanelProps {
+  // Profile of the pattern currently on the canvas; its diffracted part is
+  // inverted, since the kernel models neither the undiffracted beam nor the
+  // beam stop
+  simulated: RadialProfile | null;
+  // Readings of the ring detector array, when it is enabled
+  detectors: MeasuredProfile | null;
+  model: ScatteringModel;
+  // Wavelength and refractive indices for the kernel; particleSize is ignored
+  params: ScatteringParams;
+  // Particle density (g/cm³) for the specific surface area, if known
+  density: number | null;
+}
+
+const chartConfig = {
+  residual: {
+    label: 'Relative Residual',
+    color: '#e6194b',
+  },
+} satisfies ChartConfig;
+
+const InversionPanel = ({ simulated, detectors, model: defaultModel, params, density }: InversionPanelProps) => {
+  const [source, setSource] = useState<ProfileSource>('simulated');
+  const [imported, setImported] = useState<MeasuredProfile | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [model, setModel] = useState<ScatteringModel>(defaultModel);
+  const [settings, setSettings] = useState<InversionSettings>(defaultInversionSettings);
+  const [weighting, setWeighting] = useState<SizeWeighting>('volume');
+  const [result, setResult] = useState<{ profile: MeasuredProfile; inversion: InversionResult } | null>(null);
+  const [running, setRunning] = useState<boolean>(false);
+
+  const sources: Record<ProfileSource, MeasuredProfile | null> = {
+    simulated: simulated && { theta: simulated.theta, intensity: simulated.diffracted ?? simulated.total },
+    detectors,
+    imported,
+  };
+  const measured = sources[source];
+
+  const importProfile = async (file: File) => {
+    try {
+      const profile = parseProfileCsv(await file.text());
+      setImported(profile);
+      setImportError(profile ? null : `No angle/intensity pairs found in ${file.name}`);
+      if (profile) setSource('imported');
+    } catch (error) {
+      setImportError(`Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const runInversion = () => {
+    if (!measured) return;
+    setRunning(true);
+    // Let the button show its busy state before the solver blocks the thread
+    setTimeout(() => {
+      const inversion = invertProfile(measured, model, params, settings);
+      setResult(inversion && { profile: measured, inversion });
+      setRunning(false);
+    }, 0);
+  };
+
+  const residualData = result
+    ? result.profile.theta.map((theta, i) => ({
+      x: +(theta * 180 / Math.PI).toFixed(3),
+      residual: result.inversion.residuals[i],
+    }))
+    : [];
+
+  return (
+    <div className={styles.chartPanel}>
+      <h2 className={styles.chartTitle}>Size Distribution Inversion</h2>
+      <div className={styles.controls}>
+        <label className={styles.label}>
+          Profile:
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value as ProfileSource)}
+            className={styles.select}
+          >
+            <option value="simulated">Simulated Pattern</option>
+            <option value="detectors" disabled={!detectors}>Detector Readings</option>
+            <option value="imported" disabled={!imported}>Imported CSV</option>
+          </select>
+        </label>
+
+        <div className={styles.label}>
+          Measured Profile:
+          <Button variant="outline" asChild className={styles.screenshotButton}>
+            <label>
+              <Upload className={styles.icon} />
+              Import CSV
+              <input
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                hidden
+                onChange={(e) => e.target.files?.[0] && importProfile(e.target.files[0])}
+              />
+            </label>
+          </Button>
+        </div>
+
+        <label className={styles.label}>
+          Kernel Model:
+          <select
+            value={model}
+            onChange={(e) => setModel(e.target.value as ScatteringModel)}
+            className={styles.select}
+          >
+            <option value="fraunhofer">{scatteringModelLabels.fraunhofer}</option>
+            <option value="mie">{scatteringModelLabels.mie}</option>
+          </select>
+        </label>
+
+        <label className={styles.label}>
+          Min Size (µm):
+          <input
+            type="number"
+            value={settings.minSize}
+            onChange={(e) => setSettings({ ...settings, minSize: parseFloat(e.target.value) })}
+            className={styles.input}
+            min="0.1"
+            step="0.1"
+          />
+        </label>
+
+        <label className={styles.label}>
+          Max Size (µm):
+          <input
+            type="number"
+            value={settings.maxSize}
+            onChange={(e) => setSettings({ ...settings, maxSize: parseFloat(e.target.value) })}
+            className={styles.input}
+            min="1"
+          />
+        </label>
+
+        <label className={styles.label}>
+          Size Bins:
+          <input
+            type="number"
+            value={settings.binCount}
+            onChange={(e) => setSettings({ ...settings, binCount: Math.max(2, parseInt(e.target.value) || 2) })}
+            className={styles.input}
+            min="2"
+            max="100"
+          />
+        </label>
+
+        <label className={cn(styles.zoomLabel, styles.smoothingLabel)}>
+          Smoothing: 10^{settings.smoothing.toFixed(1)}
+          <Slider
+            value={[settings.smoothing]}
+            onValueChange={([smoothing]) => setSettings({ ...settings, smoothing })}
+            min={-6}
+            max={2}
+            step={0.5}
+            className={styles.zoomSlider}
+          />
+        </label>
+
+        <button onClick={runInversion} disabled={!measured || running} className={styles.button}>
+          {running ? 'Inverting…' : 'Invert Profile'}
+        </button>
+      </div>
+
+      {importError && <p className={cn(styles.note, styles.warning)}>{importError}</p>}
+      <p className={styles.note}>
+        CSV columns: scattering angle (°), intensity. Recovered fractions are by volume.
+      </p>
+
+      {result && (
+        <>
+          <div className={styles.inversionResult}>
+            <SizeDistributionChart bins={result.inversion.bins} basis="volume" title="Recovered Size Distribution" />
+            <SizeStatisticsPanel
+              bins={result.inversion.bins}
+              basis="volume"
+              density={density}
+              weighting={weighting}
+              onWeightingChange={setWeighting}
+              title="Recovered Statistics"
+              exportName="laser-diffraction-inversion"
+            />
+          </div>
+          <div className={styles.chartHeader}>
+            <h2 className={styles.chartTitle}>Fit Residuals</h2>
+            <span className={styles.chartLegend}>
+              RMS {(result.inversion.rmsResidual * 100).toFixed(2)}%
+            </span>
+          </div>
+          <ChartContainer config={chartConfig} className={cn(styles.chart, 'aspect-auto')}>
+            <LineChart data={residualData} margin={{ top: 8, right: 8, bottom: 16, left: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="x"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickLine={false}
+                tickFormatter={(value: number) => value.toFixed(1)}
+                label={{ value: 'Scattering Angle (°)', position: 'insideBottom', offset: -8 }}
+              />
+              <YAxis tickLine={false} width={56} tickFormatter={(value: number) => value.toFixed(2)} />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, payload) => `θ = ${payload?.[0]?.payload?.x}°`} />}
+              />
+              <ReferenceLine y={0} stroke="#999" />
+              <Line dataKey="residual" stroke="var(--color-residual)" dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ChartContainer>
+          {!result.inversion.converged && (
+            <p className={cn(styles.note, styles.warning)}>
+              The solver stopped at its iteration limit before converging, so the distribution may be
+              incomplete. Increase the smoothing or narrow the size range and invert again.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InversionPanel;
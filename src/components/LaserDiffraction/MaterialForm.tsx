@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  DispersionKind,
+  defaultDispersion,
+  dispersionKindLabels,
+  formatDispersionTable,
+  parseDispersionTable,
+} from '@/lib/optics/dispersion';
+import { distributionKindLabels, distributionWidthLabels } from '@/lib/optics/distribution';
+import { Material, materialSchema, materialShapes } from '@/lib/optics/materials';
+import DispersionChart from './DispersionChart';
+import styles from './LaserDiffraction.module.css';
+
+interface MaterialFormProps {
+  material: Material;
+  onSubmit: (material: Material) => void;
+  onCancel: () => void;
+}
+
+const distributionKinds = materialSchema.shape.distribution.shape.kind.options;
+
+// Number inputs report NaN when empty, which the schema then rejects
+const numberField = (onChange: (value: number) => void) =>
+  (e: React.ChangeEvent<HTMLInputElement>) => onChange(e.target.valueAsNumber);
+
+const MaterialForm = ({ material, onSubmit, onCancel }: MaterialFormProps) => {
+  const form = useForm<Material>({
+    resolver: zodResolver(materialSchema),
+    defaultValues: material,
+  });
+
+  const distributionKind = form.watch('distribution.kind');
+  const refractiveIndex = form.watch('refractiveIndex');
+  const dispersion = form.watch('dispersion');
+  // Tabulated data is edited as text, one "λ n k" line per point
+  const [tableText, setTableText] = useState(
+    material.dispersion?.kind === 'table' ? formatDispersionTable(material.dispersion.points) : ''
+  );
+
+  const changeDispersionKind = (kind: DispersionKind | 'none') => {
+    if (kind === 'none') {
+      form.setValue('dispersion', undefined);
+      return;
+    }
+    const { real, imag } = form.getValues('refractiveIndex');
+    const next = defaultDispersion(kind, real, imag);
+    if (next.kind === 'table') setTableText(formatDispersionTable(next.points));
+    form.setValue('dispersion', next, { shouldValidate: true });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className={styles.materialForm}>
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem className={styles.materialFormWide}>
+              <FormLabel>Name</FormLabel>
+              <FormControl><Input {...field} /></FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="refractiveIndex.real"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Refractive Index (n)</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.001" value={field.value} onChange={numberField(field.onChange)} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="refractiveIndex.imag"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Absorption (k)</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.0001" value={field.value} onChange={numberField(field.onChange)} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormItem className={styles.materialFormWide}>
+          <FormLabel>Dispersion</FormLabel>
+          <select
+            value={dispersion?.kind ?? 'none'}
+            onChange={(e) => changeDispersionKind(e.target.value as DispersionKind | 'none')}
+            className={styles.select}
+          >
+            <option value="none">None (fixed index)</option>
+            {(Object.keys(dispersionKindLabels) as DispersionKind[]).map((kind) => (
+              <option key={kind} value={kind}>{dispersionKindLabels[kind]}</option>
+            ))}
+          </select>
+        </FormItem>
+
+        {dispersion?.kind === 'sellmeier' && [0, 1, 2].map((i) => (
+          <React.Fragment key={i}>
+            <FormField
+              control={form.control}
+              name={`dispersion.terms.${i}.B`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>B{i + 1}</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.0001" value={field.value} onChange={numberField(field.onChange)} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`dispersion.terms.${i}.C`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>C{i + 1} (µm²)</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.0001" value={field.value} onChange={numberField(field.onChange)} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </React.Fragment>
+        ))}
+
+        {dispersion?.kind === 'cauchy' && (['A', 'B', 'C'] as const).map((coefficient) => (
+          <FormField
+            key={coefficient}
+            control={form.control}
+            name={`dispersion.${coefficient}`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  {coefficient}{{ A: '', B: ' (µm²)', C: ' (µm⁴)' }[coefficient]}
+                </FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.0001" value={field.value} onChange={numberField(field.onChange)} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        {dispersion?.kind === 'table' && (
+          <FormField
+            control={form.control}
+            name="dispersion.points"
+            render={({ field }) => (
+              <FormItem className={styles.materialFormWide}>
+                <FormLabel>Wavelength (nm), n, k: one point per line</FormLabel>
+                <FormControl>
+                  <Textarea
+                    rows={4}
+                    value={tableText}
+                    onChange={(e) => {
+                      setTableText(e.target.value);
+                      field.onChange(parseDispersionTable(e.target.value));
+                    }}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className={styles.materialFormWide}>
+          <DispersionChart refractiveIndex={refractiveIndex} dispersion={dispersion} />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="density"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Density (g/cm³)</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.01" value={field.value} onChange={numberField(field.onChange)} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="shape"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Shape</FormLabel>
+              <FormControl>
+                <select {...field} className={styles.select}>
+                  {materialShapes.map((shape) => (
+                    <option key={shape} value={shape}>{shape}</option>
+                  ))}
+                </select>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="distribution.kind"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Typical Distribution</FormLabel>
+              <FormControl>
+                <select {...field} className={styles.select}>
+                  {distributionKinds.map((kind) => (
+                    <option key={kind} value={kind}>{distributionKindLabels[kind]}</option>
+                  ))}
+                </select>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="distribution.size"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Typical Size (µm)</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.1" value={field.value} onChange={numberField(field.onChange)} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {distributionWidthLabels[distributionKind] && (
+          <FormField
+            control={form.control}
+            name="distribution.width"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{distributionWidthLabels[distributionKind]}</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" value={field.value} onChange={numberField(field.onChange)} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem className={styles.materialFormWide}>
+              <FormLabel>Description</FormLabel>
+              <FormControl><Textarea rows={2} {...field} /></FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="reference"
+          render={({ field }) => (
+            <FormItem className={styles.materialFormWide}>
+              <FormLabel>Literature Reference</FormLabel>
+              <FormControl><Input {...field} /></FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className={styles.materialFormActions}>
+          <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button type="submit">Save Material</Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default MaterialForm;
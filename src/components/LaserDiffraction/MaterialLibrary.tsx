@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Copy, Library, Pencil, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { dispersionKindLabels } from '@/lib/optics/dispersion';
+import { Material, createMaterialId, isBuiltInMaterial } from '@/lib/optics/materials';
+import MaterialForm from './MaterialForm';
+import styles from './LaserDiffraction.module.css';
+
+interface MaterialLibraryProps {
+  materials: Material[];
+  onSave: (material: Material) => void;
+  onClone: (id: string) => Material | null;
+  onDelete: (id: string) => void;
+  // Reason the last save to localStorage failed, if it did
+  storageError: string | null;
+}
+
+const blankMaterial = (): Material => ({
+  id: createMaterialId(),
+  name: 'New Material',
+  refractiveIndex: { real: 1.5, imag: 0 },
+  density: 1,
+  shape: 'sphere',
+  distribution: { kind: 'lognormal', size: 10, width: 0.3 },
+  description: '',
+  reference: '',
+});
+
+const MaterialLibrary = ({ materials, onSave, onClone, onDelete, storageError }: MaterialLibraryProps) => {
+  const [editing, setEditing] = useState<Material | null>(null);
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setEditing(null)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className={styles.screenshotButton}>
+          <Library className={styles.icon} />
+          Material Library
+        </Button>
+      </DialogTrigger>
+      <DialogContent className={styles.materialDialog}>
+        <DialogHeader>
+          <DialogTitle>{editing ? `Edit ${editing.name}` : 'Material Library'}</DialogTitle>
+          <DialogDescription>
+            {editing
+              ? 'The fixed refractive index is for red light; dispersion data overrides it across the visible. '
+                + 'The typical distribution is by volume.'
+              : 'Built-in standards are read-only. Clone one to adapt it, or add your own.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {storageError && <p className={cn(styles.note, styles.warning)}>{storageError}</p>}
+
+        {editing ? (
+          <MaterialForm
+            material={editing}
+            onSubmit={(material) => {
+              onSave(material);
+              setEditing(null);
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Material</TableHead>
+                  <TableHead>n + ik</TableHead>
+                  <TableHead>Density</TableHead>
+                  <TableHead>Shape</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {materials.map((material) => {
+                  const builtIn = isBuiltInMaterial(material.id);
+                  return (
+                    <TableRow key={material.id}>
+                      <TableCell title={material.description}>
+                        {material.name}
+                        {builtIn && <span className={styles.builtInTag}>built-in</span>}
+                      </TableCell>
+                      <TableCell>
+                        {material.refractiveIndex.real} + {material.refractiveIndex.imag}i
+                        {material.dispersion && (
+                          <span className={styles.builtInTag}>{dispersionKindLabels[material.dispersion.kind]}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{material.density} g/cm³</TableCell>
+                      <TableCell>{material.shape}</TableCell>
+                      <TableCell>{material.distribution.size} µm</TableCell>
+                      <TableCell className={styles.materialActions}>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label={`Clone ${material.name}`}
+                          onClick={() => {
+                            const copy = onClone(material.id);
+                            if (copy) setEditing(copy);
+                          }}
+                        >
+                          <Copy className={styles.icon} />
+                        </Button>
+                        {!builtIn && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              aria-label={`Edit ${material.name}`}
+                              onClick={() => setEditing(material)}
+                            >
+                              <Pencil className={styles.icon} />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              aria-label={`Delete ${material.name}`}
+                              onClick={() => onDelete(material.id)}
+                            >
+                              <Trash2 className={styles.icon} />
+                            </Button>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <Button variant="outline" onClick={() => setEditing(blankMaterial())} className={styles.screenshotButton}>
+              <Plus className={styles.icon} />
+              New Material
+            </Button>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MaterialLibrary;
@@ -0,0 +1,199 @@
+import React from 'react';
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DistributionBasis,
+  DistributionKind,
+  defaultDistributionWidths,
+  distributionKindLabels,
+  distributionWidthLabels,
+} from '@/lib/optics/distribution';
+import { Mixture, MixtureComponent, createComponentId } from '@/lib/optics/mixture';
+import styles from './LaserDiffraction.module.css';
+
+export interface MaterialOption {
+  value: string;
+  label: string;
+  // Typical particle size in µm
+  size: number;
+}
+
+interface MixtureEditorProps {
+  mixture: Mixture;
+  materials: MaterialOption[];
+  colors: string[];
+  onChange: (mixture: Mixture) => void;
+}
+
+// Histogram distributions are edited on the single-material panel only
+const componentDistributionKinds: DistributionKind[] = ['monodisperse', 'normal', 'lognormal', 'rosin-rammler'];
+
+const MixtureEditor = ({ mixture, materials, colors, onChange }: MixtureEditorProps) => {
+  const updateComponent = (id: string, changes: Partial<MixtureComponent>) => {
+    onChange({
+      ...mixture,
+      components: mixture.components.map((c) => (c.id === id ? { ...c, ...changes } : c)),
+    });
+  };
+
+  const addComponent = () => {
+    const material = materials[0];
+    onChange({
+      ...mixture,
+      components: [
+        ...mixture.components,
+        {
+          id: createComponentId(),
+          material: material.value,
+          distribution: { kind: 'lognormal', size: material.size, width: 0.3, basis: mixture.basis, histogram: [] },
+          fraction: 10,
+        },
+      ],
+    });
+  };
+
+  const removeComponent = (id: string) => {
+    onChange({ ...mixture, components: mixture.components.filter((c) => c.id !== id) });
+  };
+
+  const totalFraction = mixture.components.reduce((sum, c) => sum + (c.fraction || 0), 0);
+
+  return (
+    <div className={styles.mixtureEditor}>
+      <div className={styles.mixtureHeader}>
+        <h2 className={styles.chartTitle}>Sample Mixture</h2>
+        <label className={styles.inlineLabel}>
+          Fractions:
+          <select
+            value={mixture.basis}
+            onChange={(e) => {
+              const basis = e.target.value as DistributionBasis;
+              onChange({
+                basis,
+                components: mixture.components.map((c) => ({ ...c, distribution: { ...c.distribution, basis } })),
+              });
+            }}
+            className={styles.select}
+          >
+            <option value="volume">By Volume</option>
+            <option value="number">By Number</option>
+          </select>
+        </label>
+      </div>
+
+      {mixture.components.map((component, index) => {
+        const { distribution } = component;
+        const widthLabel = distributionWidthLabels[distribution.kind];
+
+        return (
+          <div key={component.id} className={styles.mixtureRow}>
+            <span className={styles.colorSwatch} style={{ backgroundColor: colors[index % colors.length] }} />
+
+            <label className={styles.label}>
+              Material:
+              <select
+                value={component.material}
+                onChange={(e) => {
+                  const material = materials.find((m) => m.value === e.target.value);
+                  updateComponent(component.id, {
+                    material: e.target.value,
+                    distribution: { ...distribution, size: material?.size ?? distribution.size },
+                  });
+                }}
+                className={styles.select}
+              >
+                {materials.map((m) => (
+                  <option key={m.value} value={m.value}>{m.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className={styles.label}>
+              Distribution:
+              <select
+                value={distribution.kind}
+                onChange={(e) => {
+                  const kind = e.target.value as DistributionKind;
+                  updateComponent(component.id, {
+                    distribution: { ...distribution, kind, width: defaultDistributionWidths[kind] ?? 0 },
+                  });
+                }}
+                className={styles.select}
+              >
+                {componentDistributionKinds.map((kind) => (
+                  <option key={kind} value={kind}>{distributionKindLabels[kind]}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className={styles.label}>
+              Size (µm):
+              <input
+                type="number"
+                value={distribution.size}
+                onChange={(e) => updateComponent(component.id, {
+                  distribution: { ...distribution, size: parseFloat(e.target.value) },
+                })}
+                className={styles.input}
+                min="0.1"
+                step="0.5"
+              />
+            </label>
+
+            {widthLabel && (
+              <label className={styles.label}>
+                {widthLabel}:
+                <input
+                  type="number"
+                  value={distribution.width}
+                  onChange={(e) => updateComponent(component.id, {
+                    distribution: { ...distribution, width: parseFloat(e.target.value) },
+                  })}
+                  className={styles.input}
+                  min="0"
+                  step={distribution.kind === 'lognormal' ? '0.05' : '0.5'}
+                />
+              </label>
+            )}
+
+            <label className={styles.label}>
+              Fraction (%):
+              <input
+                type="number"
+                value={component.fraction}
+                onChange={(e) => updateComponent(component.id, { fraction: parseFloat(e.target.value) })}
+                className={styles.input}
+                min="0"
+                max="100"
+              />
+            </label>
+
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => removeComponent(component.id)}
+              disabled={mixture.components.length <= 1}
+              aria-label="Remove component"
+            >
+              <Trash2 className={styles.icon} />
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className={styles.mixtureFooter}>
+        <Button variant="outline" onClick={addComponent} className={styles.screenshotButton}>
+          <Plus className={styles.icon} />
+          Add Component
+        </Button>
+        {Math.abs(totalFraction - 100) > 0.01 && (
+          <span className={styles.note}>
+            Fractions add up to {totalFraction.toFixed(1)}% and are rescaled to 100%.
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MixtureEditor;
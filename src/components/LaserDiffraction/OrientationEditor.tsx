@@ -0,0 +1,128 @@
+import React from 'react';
+import { cn } from "@/lib/utils";
+import {
+  EquivalentSphere,
+  MAX_ORDER,
+  MIN_ORDER,
+  OrientationSettings,
+  TumblingForm,
+  tumblingFormLabels,
+} from '@/lib/optics/orientation';
+import styles from './LaserDiffraction.module.css';
+
+interface OrientationEditorProps {
+  settings: OrientationSettings;
+  onChange: (settings: OrientationSettings) => void;
+  // Fiber length or platelet diameter (µm)
+  particleSize: number;
+  // Diameter of the sphere of equal volume (µm)
+  volumeEquivalent: number;
+  // Result of the sphere-based inversion of the pattern, once drawn
+  equivalent: EquivalentSphere | null;
+}
+
+// Relative gap between the reported and volume-equivalent diameters that is
+// flagged as a misleading result
+const MISMATCH_WARNING = 0.2;
+
+const describeOrder = (settings: OrientationSettings): string => {
+  const axis = settings.form === 'fiber' ? 'Fiber axes' : 'Platelet faces';
+  const target = settings.form === 'fiber' ? 'the flow' : 'the beam';
+  if (settings.order >= 0.95) return `${axis} lie along ${target}.`;
+  if (settings.order > 0.05) return `${axis} lean toward ${target}.`;
+  if (settings.order >= -0.05) return `${axis} tumble at random.`;
+  return settings.form === 'fiber'
+    ? 'Fiber axes turn across the flow.'
+    : 'Platelets turn edge-on to the beam.';
+};
+
+// Tumbling elongated or flattened particles: proportions, alignment order and
+// flow direction, with the equivalent-sphere size a standard analysis reports
+const OrientationEditor = ({ settings, onChange, particleSize, volumeEquivalent, equivalent }: OrientationEditorProps) => {
+  const thickness = particleSize / Math.max(1, settings.aspectRatio || 1);
+  const mismatch = equivalent !== null
+    && Math.abs(equivalent.d50 - volumeEquivalent) > MISMATCH_WARNING * volumeEquivalent;
+
+  return (
+    <>
+      <div className={styles.displayControls}>
+        <label className={styles.label}>
+          Particle Form:
+          <select
+            value={settings.form}
+            onChange={(e) => onChange({ ...settings, form: e.target.value as TumblingForm })}
+            className={styles.select}
+          >
+            {(Object.keys(tumblingFormLabels) as TumblingForm[]).map((form) => (
+              <option key={form} value={form}>{tumblingFormLabels[form]}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className={styles.label}>
+          {settings.form === 'fiber' ? 'Aspect Ratio (L/D)' : 'Aspect Ratio (D/t)'}:
+          <input
+            type="number"
+            value={settings.aspectRatio}
+            onChange={(e) => onChange({ ...settings, aspectRatio: Math.max(1, parseFloat(e.target.value) || 1) })}
+            className={styles.input}
+            min="1"
+            max="100"
+            step="0.5"
+          />
+        </label>
+
+        <label className={styles.label}>
+          Order Parameter S:
+          <input
+            type="number"
+            value={settings.order}
+            onChange={(e) => onChange({
+              ...settings,
+              order: Math.min(MAX_ORDER, Math.max(MIN_ORDER, parseFloat(e.target.value) || 0)),
+            })}
+            className={styles.input}
+            min={MIN_ORDER}
+            max={MAX_ORDER}
+            step="0.1"
+          />
+        </label>
+
+        {settings.form === 'fiber' && (
+          <label className={styles.label}>
+            Flow Direction (°):
+            <input
+              type="number"
+              value={settings.flowAngle}
+              onChange={(e) => onChange({ ...settings, flowAngle: parseFloat(e.target.value) || 0 })}
+              className={styles.input}
+              min="-180"
+              max="180"
+              step="5"
+            />
+          </label>
+        )}
+      </div>
+
+      <p className={styles.note}>
+        {settings.form === 'fiber'
+          ? `Fibers ${particleSize} µm long and ${thickness.toPrecision(3)} µm thick`
+          : `Platelets ${particleSize} µm across and ${thickness.toPrecision(3)} µm thick`}
+        {' '}(S = 1 aligned, 0 random, −0.5 crosswise). {describeOrder(settings)} The pattern averages the
+        Fraunhofer diffraction of each orientation's silhouette.
+      </p>
+
+      {equivalent && (
+        <p className={cn(styles.note, mismatch && styles.warning)}>
+          A standard sphere-based analysis of the azimuthally averaged pattern reports
+          D50 = {equivalent.d50.toFixed(2)} µm (D10 {equivalent.d10.toFixed(2)}, D90 {equivalent.d90.toFixed(2)},
+          D[4,3] {equivalent.deBrouckereMean.toFixed(2)} µm), against a volume-equivalent sphere
+          of {volumeEquivalent.toFixed(2)} µm.
+          {mismatch && ' The short and long dimensions are read as a broad spread of sphere sizes.'}
+        </p>
+      )}
+    </>
+  );
+};
+
+export default OrientationEditor;
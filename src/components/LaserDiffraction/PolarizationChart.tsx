@@ -0,0 +1,92 @@
+import React from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { cn } from "@/lib/utils";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { degreeOfPolarization } from '@/lib/optics/polarization';
+import styles from './LaserDiffraction.module.css';
+
+// Mie intensities for the two polarizations over the full angular range
+export interface PolarizationProfile {
+  // Scattering angles from 0 to π (radians)
+  theta: number[];
+  // |S1|² and |S2|², relative to the unpolarized forward peak
+  perpendicular: number[];
+  parallel: number[];
+}
+
+interface PolarizationChartProps {
+  profile: PolarizationProfile;
+}
+
+// Floor for the log axis; side and back scattering of large spheres falls
+// many decades below the forward peak
+const LOG_FLOOR = 1e-10;
+
+const chartConfig: ChartConfig = {
+  perpendicular: { label: '|S1|² (perpendicular)', color: '#4363d8' },
+  parallel: { label: '|S2|² (parallel)', color: '#e6194b' },
+};
+
+const PolarizationChart = ({ profile }: PolarizationChartProps) => {
+  const data = profile.theta.map((theta, i) => ({
+    x: +(theta * 180 / Math.PI).toFixed(2),
+    perpendicular: Math.max(profile.perpendicular[i], LOG_FLOOR),
+    parallel: Math.max(profile.parallel[i], LOG_FLOOR),
+  }));
+
+  // Side scattering, where polarization-resolved instruments look
+  const side = Math.round((profile.theta.length - 1) / 2);
+  const sidePolarization = degreeOfPolarization(profile.perpendicular[side], profile.parallel[side]);
+
+  return (
+    <div className={styles.chartPanel}>
+      <div className={styles.chartHeader}>
+        <h2 className={styles.chartTitle}>Polarized Scattering (Mie)</h2>
+      </div>
+      <ChartContainer config={chartConfig} className={cn(styles.chart, 'aspect-auto')}>
+        <LineChart data={data} margin={{ top: 8, right: 8, bottom: 16, left: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="x"
+            type="number"
+            domain={[0, 180]}
+            ticks={[0, 30, 60, 90, 120, 150, 180]}
+            tickLine={false}
+            label={{ value: 'Scattering Angle (°)', position: 'insideBottom', offset: -8 }}
+          />
+          <YAxis
+            scale="log"
+            domain={[LOG_FLOOR, 1]}
+            allowDataOverflow
+            tickLine={false}
+            width={56}
+            tickFormatter={(value: number) => value.toExponential(0)}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => `θ = ${payload?.[0]?.payload?.x}°`}
+                formatter={(value, name) => (
+                  <span>
+                    {chartConfig[name as string]?.label}: {(value as number).toExponential(2)}
+                  </span>
+                )}
+              />
+            }
+          />
+          <ReferenceLine x={90} stroke="#999" strokeDasharray="3 3" />
+          <Line dataKey="perpendicular" stroke="var(--color-perpendicular)" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+          <Line dataKey="parallel" stroke="var(--color-parallel)" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+        </LineChart>
+      </ChartContainer>
+      <p className={styles.note}>
+        |S1|² is scattered from light polarized perpendicular to the scattering plane, |S2|² from light polarized
+        in it; both start equal at θ = 0. At 90° unpolarized illumination scatters with a degree of polarization
+        of {(sidePolarization * 100).toFixed(0)}%, the signal polarization-intensity differential scattering uses
+        to size particles below the diffraction limit.
+      </p>
+    </div>
+  );
+};
+
+export default PolarizationChart;
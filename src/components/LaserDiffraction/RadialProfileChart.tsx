@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { cn } from "@/lib/utils";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ProfileExtrema, findExtrema } from '@/lib/optics/profile';
+import styles from './LaserDiffraction.module.css';
+
+// Radial intensity profile sampled from the rendered model
+export interface RadialProfile {
+  // Scattering angles (radians)
+  theta: number[];
+  // Matching radii on the screen (mm)
+  radius: number[];
+  // Intensity relative to the forward peak
+  total: number[];
+  // Diffracted light alone, without the undiffracted beam and beam stop,
+  // when it differs from what is detected
+  diffracted?: number[];
+  // Per-component contributions; they add up to `total`
+  components: { label: string; color: string; values: number[] }[];
+  // A related profile to compare against, on the same scale
+  reference?: { label: string; values: number[] };
+}
+
+type ProfileAxis = 'angle' | 'radius';
+
+type IntensityScale = 'linear' | 'log';
+
+interface RadialProfileChartProps {
+  profile: RadialProfile;
+  showComponents: boolean;
+  // Angle hovered on the canvas, shown as the chart cursor
+  hoverTheta: number | null;
+  onHoverTheta: (theta: number | null) => void;
+  // Ring markers, when the caller has located them more robustly than a
+  // plain scan of `total` (e.g. in noisy measured profiles)
+  extrema?: ProfileExtrema;
+  title?: string;
+}
+
+// Floor for the log axis, well below what the display mappings show
+const LOG_FLOOR = 1e-6;
+
+// Ring markers beyond this many per kind only clutter the chart
+const MAX_MARKERS = 12;
+
+const axisLabels: Record<ProfileAxis, string> = {
+  angle: 'Scattering Angle (°)',
+  radius: 'Screen Radius (mm)',
+};
+
+const RadialProfileChart = ({
+  profile,
+  showComponents,
+  hoverTheta,
+  onHoverTheta,
+  extrema,
+  title = 'Radial Intensity Profile',
+}: RadialProfileChartProps) => {
+  const [axis, setAxis] = useState<ProfileAxis>('angle');
+  const [scale, setScale] = useState<IntensityScale>('log');
+  const components = showComponents ? profile.components : [];
+  const floor = scale === 'log' ? LOG_FLOOR : 0;
+
+  const chartConfig: ChartConfig = {
+    total: { label: 'Total', color: '#333' },
+    reference: { label: profile.reference?.label ?? 'Reference', color: '#4363d8' },
+  };
+  components.forEach((component, i) => {
+    chartConfig[`component${i}`] = { label: component.label, color: component.color };
+  });
+
+  const xValue = (i: number) => axis === 'angle'
+    ? +(profile.theta[i] * 180 / Math.PI).toFixed(4)
+    : +profile.radius[i].toFixed(3);
+
+  const data = profile.theta.map((_, i) => {
+    const point: Record<string, number> = {
+      x: xValue(i),
+      total: Math.max(profile.total[i], floor),
+    };
+    if (profile.reference) point.reference = Math.max(profile.reference.values[i], floor);
+    components.forEach((component, c) => {
+      point[`component${c}`] = Math.max(component.values[i], floor);
+    });
+    return point;
+  });
+
+  const { minima, maxima } = extrema ?? findExtrema(profile.total);
+
+  // Chart cursor for the angle hovered on the canvas, at the nearest sample;
+  // samples need not be evenly spaced in angle (pixel radii on a flat screen)
+  let cursorX: number | null = null;
+  if (hoverTheta !== null && hoverTheta <= profile.theta[profile.theta.length - 1]) {
+    let low = 0;
+    let high = profile.theta.length - 1;
+    while (high - low > 1) {
+      const middle = (low + high) >> 1;
+      if (profile.theta[middle] <= hoverTheta) low = middle;
+      else high = middle;
+    }
+    const nearest = hoverTheta - profile.theta[low] <= profile.theta[high] - hoverTheta ? low : high;
+    cursorX = xValue(nearest);
+  }
+
+  return (
+    <div className={styles.chartPanel}>
+      <div className={styles.chartHeader}>
+        <h2 className={styles.chartTitle}>{title}</h2>
+        <div className={styles.chartOptions}>
+          <label className={styles.inlineLabel}>
+            X Axis:
+            <select value={axis} onChange={(e) => setAxis(e.target.value as ProfileAxis)} className={styles.select}>
+              <option value="angle">Angle</option>
+              <option value="radius">Screen Radius</option>
+            </select>
+          </label>
+          <label className={styles.inlineLabel}>
+            Intensity:
+            <select value={scale} onChange={(e) => setScale(e.target.value as IntensityScale)} className={styles.select}>
+              <option value="log">Log</option>
+              <option value="linear">Linear</option>
+            </select>
+          </label>
+        </div>
+      </div>
+      <ChartContainer config={chartConfig} className={cn(styles.chart, 'aspect-auto')}>
+        <LineChart
+          data={data}
+          margin={{ top: 8, right: 8, bottom: 16, left: 8 }}
+          onMouseMove={(state) => {
+            const index = state?.activeTooltipIndex;
+            onHoverTheta(typeof index === 'number' ? profile.theta[index] : null);
+          }}
+          onMouseLeave={() => onHoverTheta(null)}
+        >
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="x"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            tickLine={false}
+            tickFormatter={(value: number) => value.toFixed(1)}
+            label={{ value: axisLabels[axis], position: 'insideBottom', offset: -8 }}
+          />
+          <YAxis
+            scale={scale}
+            domain={[floor, 1]}
+            allowDataOverflow
+            tickLine={false}
+            width={56}
+            tickFormatter={(value: number) => (scale === 'log' ? value.toExponential(0) : value.toFixed(2))}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const x = payload?.[0]?.payload?.x;
+                  return axis === 'angle' ? `θ = ${x}°` : `R = ${x} mm`;
+                }}
+                formatter={(value, name) => (
+                  <span>
+                    {chartConfig[name as string]?.label}: {(value as number).toExponential(2)}
+                  </span>
+                )}
+              />
+            }
+          />
+          {minima.slice(0, MAX_MARKERS).map((i) => (
+            <ReferenceLine key={`min-${i}`} x={xValue(i)} stroke="#999" strokeDasharray="3 3" />
+          ))}
+          {maxima.slice(0, MAX_MARKERS).map((i) => (
+            <ReferenceLine key={`max-${i}`} x={xValue(i)} stroke="#f5a623" strokeOpacity={0.6} />
+          ))}
+          {cursorX !== null && <ReferenceLine x={cursorX} stroke="#e6194b" strokeWidth={1.5} />}
+          <Line dataKey="total" stroke="var(--color-total)" dot={false} strokeWidth={2} isAnimationActive={false} />
+          {profile.reference && (
+            <Line
+              dataKey="reference"
+              stroke="var(--color-reference)"
+              strokeDasharray="4 3"
+              dot={false}
+              strokeWidth={1.5}
+              isAnimationActive={false}
+            />
+          )}
+          {components.map((_, i) => (
+            <Line
+              key={i}
+              dataKey={`component${i}`}
+              stroke={`var(--color-component${i})`}
+              dot={false}
+              strokeWidth={1.5}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+      <p className={styles.chartLegend}>
+        <span className={styles.legendMaximum}>│</span> bright ring
+        <span className={styles.legendMinimum}>┆</span> dark ring
+        {profile.reference && <> <span className={styles.legendReference}>╌</span> {profile.reference.label}</>}
+      </p>
+    </div>
+  );
+};
+
+export default RadialProfileChart;
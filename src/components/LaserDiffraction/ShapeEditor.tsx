@@ -0,0 +1,143 @@
+import React, { useRef } from 'react';
+import {
+  MASK_SIZE,
+  ParticleShape,
+  ShapeSettings,
+  elongatedShapes,
+  particleShapeLabels,
+  shapeToMask,
+} from '@/lib/optics/shapes';
+import styles from './LaserDiffraction.module.css';
+
+interface ShapeEditorProps {
+  settings: ShapeSettings;
+  onChange: (settings: ShapeSettings) => void;
+}
+
+// Shape library controls plus a drawable binary mask for custom silhouettes.
+// Dragging paints with the opposite of the first cell touched.
+const ShapeEditor = ({ settings, onChange }: ShapeEditorProps) => {
+  const areaRef = useRef<HTMLDivElement>(null);
+  const paintValueRef = useRef<number | null>(null);
+
+  const changeShape = (shape: ParticleShape) => {
+    // Start a custom mask from the shape on screen rather than a blank grid
+    const mask = shape === 'custom' && !settings.mask.some((cell) => cell > 0)
+      ? shapeToMask({ ...settings, rotation: 0 })
+      : settings.mask;
+    onChange({ ...settings, shape, mask });
+  };
+
+  const paint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const area = areaRef.current;
+    if (!area) return;
+
+    const rect = area.getBoundingClientRect();
+    const col = Math.floor(((e.clientX - rect.left) / rect.width) * MASK_SIZE);
+    const row = Math.floor(((e.clientY - rect.top) / rect.height) * MASK_SIZE);
+    if (col < 0 || col >= MASK_SIZE || row < 0 || row >= MASK_SIZE) return;
+
+    const index = row * MASK_SIZE + col;
+    const mask = Array.from({ length: MASK_SIZE * MASK_SIZE }, (_, i) => settings.mask[i] ?? 0);
+    if (paintValueRef.current === null) paintValueRef.current = mask[index] > 0 ? 0 : 1;
+    if (mask[index] === paintValueRef.current) return;
+
+    mask[index] = paintValueRef.current;
+    onChange({ ...settings, mask });
+  };
+
+  return (
+    <div className={styles.displayControls}>
+      <label className={styles.label}>
+        Particle Shape:
+        <select
+          value={settings.shape}
+          onChange={(e) => changeShape(e.target.value as ParticleShape)}
+          className={styles.select}
+        >
+          {(Object.keys(particleShapeLabels) as ParticleShape[]).map((shape) => (
+            <option key={shape} value={shape}>{particleShapeLabels[shape]}</option>
+          ))}
+        </select>
+      </label>
+
+      {elongatedShapes.includes(settings.shape) && (
+        <label className={styles.label}>
+          Aspect Ratio (L/W):
+          <input
+            type="number"
+            value={settings.aspectRatio}
+            onChange={(e) => onChange({ ...settings, aspectRatio: parseFloat(e.target.value) || 1 })}
+            className={styles.input}
+            min="1"
+            max="50"
+            step="0.5"
+          />
+        </label>
+      )}
+
+      {settings.shape === 'annulus' && (
+        <label className={styles.label}>
+          Inner / Outer Diameter:
+          <input
+            type="number"
+            value={settings.innerRatio}
+            onChange={(e) => onChange({ ...settings, innerRatio: parseFloat(e.target.value) || 0 })}
+            className={styles.input}
+            min="0"
+            max="0.95"
+            step="0.05"
+          />
+        </label>
+      )}
+
+      {settings.shape !== 'disc' && (
+        <label className={styles.label}>
+          Rotation (°):
+          <input
+            type="number"
+            value={settings.rotation}
+            onChange={(e) => onChange({ ...settings, rotation: parseFloat(e.target.value) || 0 })}
+            className={styles.input}
+            min="-180"
+            max="180"
+            step="5"
+          />
+        </label>
+      )}
+
+      {settings.shape === 'custom' && (
+        <div className={styles.maskEditor}>
+          <div
+            ref={areaRef}
+            className={styles.maskArea}
+            style={{ gridTemplateColumns: `repeat(${MASK_SIZE}, 1fr)` }}
+            onPointerDown={(e) => {
+              paintValueRef.current = null;
+              e.currentTarget.setPointerCapture(e.pointerId);
+              paint(e);
+            }}
+            onPointerMove={(e) => paintValueRef.current !== null && paint(e)}
+            onPointerUp={() => { paintValueRef.current = null; }}
+          >
+            {Array.from({ length: MASK_SIZE * MASK_SIZE }, (_, i) => (
+              <div key={i} className={settings.mask[i] > 0 ? styles.maskCellFilled : styles.maskCell} />
+            ))}
+          </div>
+          <div className={styles.histogramAxis}>
+            <span>Draw the particle silhouette</span>
+            <button
+              type="button"
+              className={styles.linkButton}
+              onClick={() => onChange({ ...settings, mask: new Array(MASK_SIZE * MASK_SIZE).fill(0) })}
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShapeEditor;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { cn } from "@/lib/utils";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { DistributionBasis, SizeBins } from '@/lib/optics/distribution';
+import styles from './LaserDiffraction.module.css';
+
+interface SizeDistributionChartProps {
+  bins: SizeBins;
+  basis: DistributionBasis;
+  title?: string;
+}
+
+const chartConfig = {
+  fraction: {
+    label: 'Fraction (%)',
+    color: '#4CAF50',
+  },
+} satisfies ChartConfig;
+
+const SizeDistributionChart = ({ bins, basis, title = 'Particle Size Distribution' }: SizeDistributionChartProps) => {
+  const data = bins.sizes.map((size, i) => ({
+    size: size < 10 ? size.toFixed(2) : size.toFixed(1),
+    fraction: +(bins.weights[i] * 100).toFixed(2),
+  }));
+
+  return (
+    <div className={styles.chartPanel}>
+      <h2 className={styles.chartTitle}>
+        {title} ({basis === 'volume' ? 'by volume' : 'by number'})
+      </h2>
+      <ChartContainer config={chartConfig} className={cn(styles.chart, 'aspect-auto')}>
+        <BarChart data={data} margin={{ top: 8, right: 8, bottom: 16, left: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="size"
+            tickLine={false}
+            interval="preserveStartEnd"
+            label={{ value: 'Diameter (µm)', position: 'insideBottom', offset: -8 }}
+          />
+          <YAxis tickLine={false} width={40} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(label) => `${label} µm`} />} />
+          <Bar dataKey="fraction" fill="var(--color-fraction)" radius={2} />
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+};
+
+export default SizeDistributionChart;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SizeBins, SizeWeighting, sizeWeightingLabels } from '@/lib/optics/distribution';
+import { computeSizeStatistics, sizeDistributionCsv, statisticsEntries } from '@/lib/optics/statistics';
+import styles from './LaserDiffraction.module.css';
+
+interface SizeStatisticsPanelProps {
+  bins: SizeBins;
+  basis: SizeWeighting;
+  // Particle density (g/cm³), for the specific surface area
+  density: number | null;
+  // Weighting of the percentiles, shared with the caption and exports
+  weighting: SizeWeighting;
+  onWeightingChange: (weighting: SizeWeighting) => void;
+  title?: string;
+  // Download name for the CSV export, without extension
+  exportName: string;
+}
+
+const SizeStatisticsPanel = ({
+  bins,
+  basis,
+  density,
+  weighting,
+  onWeightingChange,
+  title = 'Size Statistics',
+  exportName,
+}: SizeStatisticsPanelProps) => {
+  const stats = computeSizeStatistics(bins, basis, density, weighting);
+
+  const exportCsv = () => {
+    if (!stats) return;
+    const blob = new Blob([sizeDistributionCsv(bins, basis, stats)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = `${exportName}-${Date.now()}.csv`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={styles.statisticsPanel}>
+      <h2 className={styles.chartTitle}>{title}</h2>
+      <label className={styles.inlineLabel}>
+        Percentiles:
+        <select
+          value={weighting}
+          onChange={(e) => onWeightingChange(e.target.value as SizeWeighting)}
+          className={styles.select}
+        >
+          {(Object.keys(sizeWeightingLabels) as SizeWeighting[]).map((w) => (
+            <option key={w} value={w}>{sizeWeightingLabels[w]}</option>
+          ))}
+        </select>
+      </label>
+      {stats ? (
+        <table className={styles.resultTable}>
+          <tbody>
+            {statisticsEntries(stats).map(([label, value]) => (
+              <tr key={label}>
+                <th>{label}</th>
+                <td>{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className={styles.note}>No particles in the distribution.</p>
+      )}
+      <Button variant="outline" onClick={exportCsv} disabled={!stats} className={styles.screenshotButton}>
+        <Download className={styles.icon} />
+        Export CSV
+      </Button>
+    </div>
+  );
+};
+
+export default SizeStatisticsPanel;
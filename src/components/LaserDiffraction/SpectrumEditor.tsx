@@ -0,0 +1,92 @@
+import React, { useRef } from 'react';
+import { rgbToCss, wavelengthToRGB } from '@/lib/optics/color';
+import { SPECTRUM_WAVELENGTHS, SpectrumSettings, spectralWidth, spectrumBars } from '@/lib/optics/spectrum';
+import styles from './LaserDiffraction.module.css';
+
+interface SpectrumEditorProps {
+  settings: SpectrumSettings;
+  onChange: (settings: SpectrumSettings) => void;
+  // Laser line (nm), which the other panels keep using
+  laserWavelength: number;
+}
+
+// Spectrum of a broadband source, drawn in the color of each wavelength.
+// Dragging across the bars turns any preset into a custom spectrum.
+const SpectrumEditor = ({ settings, onChange, laserWavelength }: SpectrumEditorProps) => {
+  const areaRef = useRef<HTMLDivElement>(null);
+  const drawingRef = useRef(false);
+  const bars = spectrumBars(settings, laserWavelength);
+  const width = spectralWidth(settings, laserWavelength);
+
+  const paint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const area = areaRef.current;
+    if (!area) return;
+
+    const rect = area.getBoundingClientRect();
+    const bin = Math.floor(((e.clientX - rect.left) / rect.width) * SPECTRUM_WAVELENGTHS.length);
+    if (bin < 0 || bin >= SPECTRUM_WAVELENGTHS.length) return;
+
+    const height = Math.min(1, Math.max(0, 1 - (e.clientY - rect.top) / rect.height));
+    const custom = settings.kind === 'custom' ? SPECTRUM_WAVELENGTHS.map((_, i) => settings.custom[i] ?? 0) : bars;
+    custom[bin] = +height.toFixed(3);
+    onChange({ ...settings, kind: 'custom', custom });
+  };
+
+  return (
+    <div className={styles.histogramEditor}>
+      {settings.kind === 'blackbody' && (
+        <div className={styles.displayControls}>
+          <label className={styles.label}>
+            Temperature (K):
+            <input
+              type="number"
+              value={settings.temperature}
+              onChange={(e) => onChange({ ...settings, temperature: parseFloat(e.target.value) || 0 })}
+              className={styles.input}
+              min="1000"
+              max="20000"
+              step="100"
+            />
+          </label>
+        </div>
+      )}
+
+      <div
+        ref={areaRef}
+        className={styles.histogramArea}
+        onPointerDown={(e) => {
+          drawingRef.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          paint(e);
+        }}
+        onPointerMove={(e) => drawingRef.current && paint(e)}
+        onPointerUp={() => { drawingRef.current = false; }}
+      >
+        {SPECTRUM_WAVELENGTHS.map((nm, i) => (
+          <div
+            key={nm}
+            className={styles.histogramBar}
+            style={{ height: `${bars[i] * 100}%`, backgroundColor: rgbToCss(wavelengthToRGB(nm)) }}
+            title={`${nm} nm`}
+          />
+        ))}
+      </div>
+      <div className={styles.histogramAxis}>
+        <span>{SPECTRUM_WAVELENGTHS[0]} nm</span>
+        <span>Draw a custom source spectrum</span>
+        <span>{SPECTRUM_WAVELENGTHS[SPECTRUM_WAVELENGTHS.length - 1]} nm</span>
+      </div>
+
+      {width.coherenceLength !== null && width.resolvedOrder !== null && (
+        <p className={styles.note}>
+          Mean wavelength {width.mean.toFixed(0)} nm, spread ±{width.spread.toFixed(0)} nm: coherence length
+          about {width.coherenceLength.toFixed(1)} µm. Each ring order spreads into a band of colors, and
+          beyond order ≈ {width.resolvedOrder.toFixed(0)} neighboring rings overlap and wash out. Photo
+          analysis and inversion still use the {laserWavelength} nm laser line.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SpectrumEditor;
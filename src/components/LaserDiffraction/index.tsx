@@ -1,33 +1,389 @@
 
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useMemo } from 'react';
 import { cn } from "@/lib/utils";
 import { Slider } from "@/components/ui/slider";
 import { Camera } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { computeAiryPattern } from '@/lib/optics/airy';
+import { RGB, rgbToCss, wavelengthToRGB, xyzToRGB } from '@/lib/optics/color';
+import { complex } from '@/lib/optics/complex';
+import {
+  DetectorArray,
+  createDetectorRings,
+  defaultDetectorArray,
+  detectorProfile,
+  detectorSignals,
+} from '@/lib/optics/detectors';
+import {
+  DisplayMapping,
+  DisplaySettings,
+  defaultDisplaySettings,
+  displayMappingLabels,
+} from '@/lib/optics/display';
+import {
+  IntensityProfile,
+  PolarizedProfiles,
+  ScatteringModel,
+  ScatteringParams,
+  computeScattering,
+  findModelDivergence,
+  scatteringModelLabels,
+} from '@/lib/optics/models';
+import {
+  DistributionBasis,
+  SizeBins,
+  SizeWeighting,
+  DistributionKind,
+  HISTOGRAM_SIZES,
+  SizeDistribution,
+  computeEnsemble,
+  convertBasis,
+  defaultDistributionWidths,
+  discretizeDistribution,
+  distributionKindLabels,
+  distributionSizeLabels,
+  distributionWidthLabels,
+} from '@/lib/optics/distribution';
+import { useMaterialLibrary } from "@/hooks/use-material-library";
+import { dispersionKindLabels } from '@/lib/optics/dispersion';
+import { builtInMaterials, refractiveIndexAt } from '@/lib/optics/materials';
+import {
+  Mixture,
+  MixtureProfiles,
+  createComponentId,
+  createMixtureProfiles,
+  mixtureSizeBins,
+  mixtureVolumeShares,
+} from '@/lib/optics/mixture';
+import {
+  DetectorGeometry,
+  angleToRadius,
+  detectorGeometryLabels,
+  detectorLengthLabels,
+  radiusToAngle,
+} from '@/lib/optics/geometry';
+import {
+  createRadialTable,
+  renderPattern,
+  renderRadialPattern,
+  renderRadialSpectrum,
+  renderSpectrum,
+} from '@/lib/optics/render';
+import { SuspendingMedium, suspendingMediumIndices, suspendingMediumLabels } from '@/lib/optics/medium';
+import { diffractionRegime, diffractionRegimeLabels, fresnelNumber } from '@/lib/optics/fresnel';
+import { AngularPattern, ShapeSettings, computeShapePattern, defaultShapeSettings, particleShapeLabels } from '@/lib/optics/shapes';
+import {
+  CoatedParticle,
+  coatedExtinctionEfficiency,
+  coatedOuterDiameter,
+  computeCoatedScattering,
+  defaultCoatedParticle,
+} from '@/lib/optics/coated';
+import {
+  ConcentrationSettings,
+  applyMultipleScattering,
+  defaultConcentrationSettings,
+  extinctionPerVolume,
+  mieExtinctionEfficiency,
+  obscuration,
+  opticalDepth,
+} from '@/lib/optics/concentration';
+import { BeamSettings, beamDivergence, createIllumination, defaultBeamSettings, forwardEquivalentSize } from '@/lib/optics/beam';
+import {
+  SourceSpectrum,
+  SpectrumSettings,
+  defaultSpectrumSettings,
+  lineTristimulus,
+  sourceSpectrumLabels,
+  spectralLines,
+} from '@/lib/optics/spectrum';
+import {
+  CameraSettings,
+  CameraStatistics,
+  applyCamera,
+  cameraStatistics,
+  defaultCameraSettings,
+} from '@/lib/optics/camera';
+import {
+  EquivalentSphere,
+  OrientationSettings,
+  computeTumblingPattern,
+  defaultOrientationSettings,
+  equivalentSphere,
+  tumblingFormLabels,
+  tumblingProfile,
+  volumeEquivalentDiameter,
+} from '@/lib/optics/orientation';
+import {
+  PolarizationSettings,
+  PolarizationState,
+  defaultPolarizationSettings,
+  describePolarization,
+  parallelShare,
+  polarizationStateLabels,
+} from '@/lib/optics/polarization';
+import { EnsembleSettings, computeSpecklePattern, defaultEnsembleSettings, speckleAngleLimit } from '@/lib/optics/speckle';
+import { computeSizeStatistics, formatStatisticsSummary } from '@/lib/optics/statistics';
+import AnalyzePanel, { SimulatedFrame } from './AnalyzePanel';
+import BeamPanel from './BeamPanel';
+import CameraPanel from './CameraPanel';
+import CoatedEditor from './CoatedEditor';
+import ConcentrationPanel from './ConcentrationPanel';
+import DetectorArrayPanel from './DetectorArrayPanel';
+import EnsemblePanel from './EnsemblePanel';
+import GeometrySchematic from './GeometrySchematic';
+import HistogramEditor from './HistogramEditor';
+import InversionPanel from './InversionPanel';
+import MaterialLibrary from './MaterialLibrary';
+import MixtureEditor, { MaterialOption } from './MixtureEditor';
+import OrientationEditor from './OrientationEditor';
+import PolarizationChart, { PolarizationProfile } from './PolarizationChart';
+import RadialProfileChart, { RadialProfile } from './RadialProfileChart';
+import ShapeEditor from './ShapeEditor';
+import SizeDistributionChart from './SizeDistributionChart';
+import SizeStatisticsPanel from './SizeStatisticsPanel';
+import SpectrumEditor from './SpectrumEditor';
 import styles from './LaserDiffraction.module.css';
 
-// Material data with particle sizes in micrometers
-const materialsData = {
-  "lycopodium": 30,
-  "silica": 5,
-  "custom": null
+type ModelView = ScatteringModel | 'compare';
+
+type SampleMode = 'single' | 'mixture' | 'shape' | 'coated' | 'tumbling';
+
+// Line colors for the mixture components
+const componentColors = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#42d4f4'];
+
+// Samples across the canvas half-width for the radial profile chart
+const PROFILE_SAMPLES = 300;
+
+// Samples from 0 to 180° for the polarized scattering chart
+const POLARIZATION_SAMPLES = 361;
+
+// Pause after the last input change before the speckle ensemble is recomputed (ms)
+const ENSEMBLE_DEBOUNCE_MS = 400;
+
+// Material selected on first load; size and distribution start at its
+// typical values
+const initialMaterial = builtInMaterials[0];
+
+// Starting histogram: a single bump around 30 µm
+const defaultHistogram = HISTOGRAM_SIZES.map((size) => +Math.exp(-0.5 * Math.pow(Math.log(size / 30) / 0.4, 2)).toFixed(3));
+
+const defaultMixture: Mixture = {
+  basis: 'volume',
+  components: [
+    {
+      id: createComponentId(),
+      material: 'lycopodium',
+      distribution: { kind: 'lognormal', size: 30, width: 0.2, basis: 'volume', histogram: [] },
+      fraction: 70,
+    },
+    {
+      id: createComponentId(),
+      material: 'silica',
+      distribution: { kind: 'lognormal', size: 5, width: 0.3, basis: 'volume', histogram: [] },
+      fraction: 30,
+    },
+  ],
 };
 
 const LaserDiffraction = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
   const screenshotCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Last pattern drawn, without the overlays, for the photo analysis
+  const frameRef = useRef<ImageData | null>(null);
   const [wavelength, setWavelength] = useState<string>('650');
+  const [spectrumSettings, setSpectrumSettings] = useState<SpectrumSettings>(defaultSpectrumSettings);
   const [distance, setDistance] = useState<string>('100');
-  const [particleSize, setParticleSize] = useState<string>('10');
-  const [selectedMaterial, setSelectedMaterial] = useState<string>('lycopodium');
+  const [geometry, setGeometry] = useState<DetectorGeometry>('screen');
+  const [focalLength, setFocalLength] = useState<string>('30');
+  const [particleSize, setParticleSize] = useState<string>(initialMaterial.distribution.size.toString());
+  const [selectedMaterial, setSelectedMaterial] = useState<string>(initialMaterial.id);
   const [zoomLevel, setZoomLevel] = useState<number[]>([1]);
+  const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(defaultDisplaySettings);
+  const [modelView, setModelView] = useState<ModelView>('fraunhofer');
+  const [polarization, setPolarization] = useState<PolarizationSettings>(defaultPolarizationSettings);
+  const [particleIndexReal, setParticleIndexReal] = useState<string>('1.5');
+  const [particleIndexImag, setParticleIndexImag] = useState<string>('0');
+  const [suspendingMedium, setSuspendingMedium] = useState<SuspendingMedium>('air');
+  const [mediumIndex, setMediumIndex] = useState<string>('1.0');
+  const [divergenceAngle, setDivergenceAngle] = useState<number | null>(null);
+  const [distributionKind, setDistributionKind] = useState<DistributionKind>(initialMaterial.distribution.kind);
+  const [distributionWidth, setDistributionWidth] = useState<string>(initialMaterial.distribution.width.toString());
+  const [distributionBasis, setDistributionBasis] = useState<DistributionBasis>('volume');
+  const [histogram, setHistogram] = useState<number[]>(defaultHistogram);
+  const [sampleMode, setSampleMode] = useState<SampleMode>('single');
+  const [shapeSettings, setShapeSettings] = useState<ShapeSettings>(defaultShapeSettings);
+  const [coatedParticle, setCoatedParticle] = useState<CoatedParticle>(defaultCoatedParticle);
+  const [orientationSettings, setOrientationSettings] = useState<OrientationSettings>(defaultOrientationSettings);
+  const [sphereEquivalent, setSphereEquivalent] = useState<EquivalentSphere | null>(null);
+  const [ensembleSettings, setEnsembleSettings] = useState<EnsembleSettings>(defaultEnsembleSettings);
+  const [beamSettings, setBeamSettings] = useState<BeamSettings>(defaultBeamSettings);
+  const [concentrationSettings, setConcentrationSettings] = useState<ConcentrationSettings>(defaultConcentrationSettings);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(defaultCameraSettings);
+  const [cameraReadout, setCameraReadout] = useState<CameraStatistics | null>(null);
+  const [mixture, setMixture] = useState<Mixture>(defaultMixture);
+  const [showContributions, setShowContributions] = useState<boolean>(false);
+  const [radialProfile, setRadialProfile] = useState<RadialProfile | null>(null);
+  const [polarizationProfile, setPolarizationProfile] = useState<PolarizationProfile | null>(null);
+  const [hoverTheta, setHoverTheta] = useState<number | null>(null);
+  const [detectorArray, setDetectorArray] = useState<DetectorArray>(defaultDetectorArray);
+  const [showDetectors, setShowDetectors] = useState<boolean>(false);
+  const [statisticsWeighting, setStatisticsWeighting] = useState<SizeWeighting>('volume');
+  const [detectorReadings, setDetectorReadings] = useState<number[] | null>(null);
+  
+  const distribution: SizeDistribution = {
+    kind: distributionKind,
+    size: parseFloat(particleSize),
+    width: parseFloat(distributionWidth),
+    basis: distributionBasis,
+    histogram,
+  };
+
+  const { materials, saveMaterial, cloneMaterial, deleteMaterial, storageError } = useMaterialLibrary();
+  const currentMaterial = materials.find((m) => m.id === selectedMaterial);
+  const materialOptions: MaterialOption[] = materials.map((m) => ({
+    value: m.id,
+    label: m.name,
+    size: m.distribution.size,
+  }));
+
+  // Distribution the size statistics describe: the pooled mixture by volume,
+  // the single population in its own basis, or one shaped, coated or
+  // tumbling particle
+  const sizeBins: SizeBins = {
+    single: () => discretizeDistribution(distribution),
+    mixture: () => mixtureSizeBins(mixture),
+    shape: () => ({ sizes: [parseFloat(particleSize)], weights: [1] }),
+    coated: () => ({ sizes: [coatedOuterDiameter(coatedParticle)], weights: [1] }),
+    tumbling: () => ({ sizes: [parseFloat(particleSize)], weights: [1] }),
+  }[sampleMode]();
+  // A random cloud of the single material's particles, drawn as speckle
+  const ensembleActive = sampleMode === 'single' && ensembleSettings.enabled;
+  const sizeBasis: DistributionBasis = sampleMode === 'mixture' ? 'volume' : distributionBasis;
+  const sizeLabel = {
+    single: distributionSizeLabels[distributionKind],
+    mixture: distributionSizeLabels[distributionKind],
+    shape: 'Particle Size',
+    coated: 'Outer Diameter',
+    tumbling: orientationSettings.form === 'fiber' ? 'Fiber Length' : 'Platelet Diameter',
+  }[sampleMode];
+  const sampleDensity = (() => {
+    // A coating of another material has no density in the library
+    if (sampleMode === 'coated') return null;
+    if (sampleMode !== 'mixture') return currentMaterial?.density ?? null;
+    // Volume-weighted mean; unknown as soon as one component has no material
+    const shares = mixtureVolumeShares(mixture);
+    const densities = mixture.components.map((c) => materials.find((m) => m.id === c.material)?.density);
+    if (densities.some((d) => d === undefined)) return null;
+    return densities.reduce((sum, d, i) => sum + d * shares[i], 0);
+  })();
+  // Statistics in the weighting picked on the statistics panel, for the
+  // caption and the detector export
+  const sampleStatistics = computeSizeStatistics(sizeBins, sizeBasis, sampleDensity, statisticsWeighting);
 
-  // Update particle size when material changes
+  // Fall back to a custom material when the selected one is deleted from the
+  // library
   useEffect(() => {
-    if (selectedMaterial !== 'custom' && materialsData[selectedMaterial as keyof typeof materialsData]) {
-      setParticleSize(materialsData[selectedMaterial as keyof typeof materialsData]?.toString() || '10');
+    if (!currentMaterial && selectedMaterial !== 'custom') setSelectedMaterial('custom');
+  }, [currentMaterial, selectedMaterial]);
+
+  // Picking a material starts from its typical size and distribution; later
+  // edits to the library leave the current inputs alone
+  const selectMaterial = (id: string) => {
+    setSelectedMaterial(id);
+    const typical = materials.find((m) => m.id === id)?.distribution;
+    if (!typical) return;
+    setParticleSize(typical.size.toString());
+    setDistributionKind(typical.kind);
+    setDistributionWidth(typical.width.toString());
+  };
+
+  // Refractive index of the selected material at the laser wavelength, which
+  // follows its dispersion data as the wavelength changes
+  useEffect(() => {
+    if (!currentMaterial) return;
+    const { real, imag } = refractiveIndexAt(currentMaterial, parseFloat(wavelength));
+    setParticleIndexReal(Number(real.toFixed(4)).toString());
+    setParticleIndexImag(Number(imag.toPrecision(4)).toString());
+  }, [currentMaterial, wavelength]);
+
+  // Detector geometry shared by the renderer, the overlay and hover tracking.
+  // The scale length is the focal length behind a lens, else the distance.
+  // Angles are scattering angles inside the medium, refracted at the cell
+  // window on their way to the detector.
+  const detectorLength = parseFloat(geometry === 'lens' ? focalLength : distance) * 1e-2; // cm to m
+  const refractiveMedium = parseFloat(mediumIndex) || 1;
+  
+  // Apply zoom factor to the scale
+  const baseScaleFactor = 4000; 
+  const scaleFactor = baseScaleFactor * zoomLevel[0];
+  
+  const angleAt = (pixelRadius: number) =>
+    radiusToAngle(geometry, detectorLength, pixelRadius / scaleFactor, refractiveMedium);
+  const radiusAt = (theta: number) => angleToRadius(geometry, detectorLength, theta, refractiveMedium) * scaleFactor;
+  const detectorRings = createDetectorRings(detectorArray, geometry, detectorLength, refractiveMedium);
+  // Scattering angle at the corner of the 800 × 400 pattern canvas
+  const cornerAngle = angleAt(Math.hypot(400, 200));
+
+  // Finite laser beam: undiffracted spot, divergence blur and beam stop,
+  // scaled against the forward peak of the particles in the beam
+  const wavelengthInMedium = parseFloat(wavelength) * 1e-9 / refractiveMedium;
+  const forwardSize = forwardEquivalentSize(convertBasis(sizeBins, sizeBasis, 'number'));
+  const illuminationAt = (mediumWavelength: number) => createIllumination(
+    beamSettings,
+    mediumWavelength,
+    forwardSize,
+    ensembleActive ? ensembleSettings.particleCount : 1,
+    geometry,
+    detectorLength,
+    cornerAngle,
+    refractiveMedium
+  );
+  const illumination = illuminationAt(wavelengthInMedium);
+
+  // Beer–Lambert extinction of the sample at the laser line, from Mie
+  // extinction efficiencies; shaped particles count as spheres
+  const sampleExtinction = () => {
+    const laserParams: ScatteringParams = {
+      wavelength: parseFloat(wavelength) * 1e-9,
+      particleSize: 0,
+      particleIndex: complex(parseFloat(particleIndexReal), parseFloat(particleIndexImag) || 0),
+      mediumIndex: refractiveMedium,
+    };
+    if (sampleMode === 'coated') {
+      const efficiency = coatedExtinctionEfficiency(coatedParticle, laserParams);
+      return extinctionPerVolume({ sizes: [coatedOuterDiameter(coatedParticle)], weights: [1] }, () => efficiency);
     }
-  }, [selectedMaterial]);
+    if (sampleMode !== 'mixture') {
+      return extinctionPerVolume(convertBasis(sizeBins, sizeBasis, 'number'), mieExtinctionEfficiency(laserParams));
+    }
+    const shares = mixtureVolumeShares(mixture);
+    return mixture.components.reduce((sum, component, i) => {
+      const material = materials.find((m) => m.id === component.material);
+      const index = material ? refractiveIndexAt(material, parseFloat(wavelength)) : null;
+      const bins = convertBasis(discretizeDistribution(component.distribution), component.distribution.basis, 'number');
+      const efficiency = mieExtinctionEfficiency(
+        index ? { ...laserParams, particleIndex: complex(index.real, index.imag) } : laserParams
+      );
+      return sum + shares[i] * extinctionPerVolume(bins, efficiency);
+    }, 0);
+  };
+  const depth = opticalDepth(concentrationSettings, concentrationSettings.enabled ? sampleExtinction() : 0);
+  // Speckle, 2D FFT and orientation-averaged patterns are drawn as single
+  // scattering
+  const singleScatteringOnly = sampleMode === 'shape' || sampleMode === 'tumbling' || ensembleActive;
+  const multipleScattering = depth > 0 && !singleScatteringOnly;
+
+  // Source spectrum; a laser is a single line drawn in its own color
+  const polychromatic = spectrumSettings.kind !== 'laser';
+  const lines = spectralLines(spectrumSettings, parseFloat(wavelength));
+  const tristimulus = lineTristimulus(lines);
+  const sourceColor = polychromatic
+    ? xyzToRGB(tristimulus.reduce((sum, xyz) => sum.map((c, i) => c + xyz[i]) as RGB, [0, 0, 0] as RGB))
+    : wavelengthToRGB(parseFloat(wavelength));
 
   // Generate the diffraction pattern
   const generatePattern = () => {
@@ -44,15 +400,367 @@ const LaserDiffraction = () => {
     
     // Convert inputs to SI units
     const wavelengthSI = parseFloat(wavelength) * 1e-9; // nm to m
-    const distanceSI = parseFloat(distance) * 1e-2; // cm to m
     const particleSizeSI = parseFloat(particleSize) * 1e-6; // µm to m
     
-    // Clear the canvas
-    ctx.fillStyle = 'black';
-    ctx.fillRect(0, 0, width, height);
+    const params: ScatteringParams = {
+      wavelength: wavelengthSI,
+      particleSize: particleSizeSI,
+      particleIndex: complex(parseFloat(particleIndexReal), parseFloat(particleIndexImag) || 0),
+      mediumIndex: parseFloat(mediumIndex) || 1,
+      // Behind a lens the detector sits in the far field
+      distance: geometry === 'lens' ? Infinity : detectorLength,
+    };
+    const color = wavelengthToRGB(parseFloat(wavelength));
+    
+    // Each mixture component scatters with its own material's refractive
+    // index at the wavelength (nm) of the line
+    const mixtureAt = (lineWavelength: number): Mixture => ({
+      ...mixture,
+      components: mixture.components.map((component) => {
+        const material = materials.find((m) => m.id === component.material);
+        if (!material) return component;
+        const { real, imag } = refractiveIndexAt(material, lineWavelength);
+        return { ...component, particleIndex: complex(real, imag) };
+      }),
+    });
+    
+    // Lines of a broadband source see a dispersive material's index at their
+    // own wavelength; otherwise the index on the form applies
+    const particleIndexAt = (lineWavelength: number) => {
+      if (!currentMaterial?.dispersion) return params.particleIndex;
+      const { real, imag } = refractiveIndexAt(currentMaterial, lineWavelength);
+      return complex(real, imag);
+    };
+    
+    // Each line sees the beam's divergence and spot at its own wavelength
+    const lineIlluminations = lines.map((line) =>
+      polychromatic ? illuminationAt(line.wavelength * 1e-9 / params.mediumIndex) : illumination
+    );
+    
+    // Power summed over the source lines, from per-line relative intensities
+    const spectralSum = (perLine: (line: number, theta: number) => number) => (theta: number) =>
+      lines.reduce((sum, line, i) => sum + line.weight * perLine(i, theta), 0);
+    
+    // Paint per-line detected intensities: in the laser color for a single
+    // line, in the color of the summed spectrum otherwise. With the camera on,
+    // the painted intensities are kept in `intensities` for its exposure.
+    const paintRadial = (
+      image: ImageData,
+      detectedAt: (line: number, theta: number) => number,
+      intensities?: Float32Array
+    ) => {
+      if (polychromatic) {
+        renderRadialSpectrum(
+          image,
+          centerX,
+          centerY,
+          lines.map((_, i) => ({ xyz: tristimulus[i], intensityAt: (pixelRadius) => detectedAt(i, angleAt(pixelRadius)) })),
+          displaySettings,
+          intensities
+        );
+      } else {
+        renderRadialPattern(
+          image,
+          centerX,
+          centerY,
+          (pixelRadius) => detectedAt(0, angleAt(pixelRadius)),
+          displaySettings,
+          color,
+          intensities
+        );
+      }
+    };
+    
+    // Paint per-line intensities given at pixel offsets from the center
+    const paintPixels = (
+      image: ImageData,
+      at: (line: number) => (dx: number, dy: number) => number,
+      intensities?: Float32Array
+    ) => {
+      if (polychromatic) {
+        renderSpectrum(
+          image,
+          centerX,
+          centerY,
+          lines.map((_, i) => ({ xyz: tristimulus[i], intensityAt: at(i) })),
+          displaySettings,
+          intensities
+        );
+      } else {
+        renderPattern(image, centerX, centerY, at(0), displaySettings, color, intensities);
+      }
+    };
+    
+    // Canvas y grows downward; φ is counterclockwise from +x
+    const paintAngular = (
+      image: ImageData,
+      detectedAt: (line: number, theta: number, phi: number) => number,
+      intensities?: Float32Array
+    ) =>
+      paintPixels(
+        image,
+        (line) => (dx, dy) => detectedAt(line, angleAt(Math.hypot(dx, dy)), Math.atan2(-dy, dx)),
+        intensities
+      );
+    
+    // Linearly polarized light: each azimuth mixes the parallel and
+    // perpendicular profiles, tabulated by radius first. The undiffracted
+    // beam is added to both, so it stays round.
+    const paintPolarized = (
+      image: ImageData,
+      polarizedAt: (line: number) => PolarizedProfiles,
+      intensities?: Float32Array
+    ) => {
+      const tables = lines.map((_, i) => {
+        const { smooth, detect } = lineIlluminations[i];
+        const table = (profile: (theta: number) => number) => {
+          const smoothed = smooth(profile);
+          return createRadialTable(image, centerX, centerY, (pixelRadius) => {
+            const theta = angleAt(pixelRadius);
+            return detect(smoothed(theta), theta);
+          });
+        };
+        const { parallel, perpendicular } = polarizedAt(i);
+        return { parallel: table(parallel), perpendicular: table(perpendicular) };
+      });
+      paintPixels(image, (line) => (dx, dy) => {
+        const pixelRadius = Math.hypot(dx, dy);
+        const share = parallelShare(polarization, Math.atan2(-dy, dx));
+        return tables[line].parallel(pixelRadius) * share + tables[line].perpendicular(pixelRadius) * (1 - share);
+      }, intensities);
+    };
+    
+    // Relative intensity of every pixel, for the camera to expose
+    const sensorBuffer = () => (cameraSettings.enabled ? new Float32Array(width * height) : undefined);
+    let sensor: Float32Array | undefined;
+    // Set in compare mode: where the two models part ways, marked over the frame
+    let comparison: { divergence: number | null } | null = null;
+    
+    // A single population scatters as one profile with no components
+    const singleProfiles = ({ profile, polarized }: { profile: IntensityProfile; polarized: PolarizedProfiles }) =>
+      ({ total: profile, components: [], polarized });
+    
+    // Fill every pixel from the selected model's angular intensity
+    const renderModel = (model: ScatteringModel) => {
+      const perLine = lines.map((line, i) => {
+        const lineParams = {
+          ...params,
+          wavelength: line.wavelength * 1e-9,
+          particleIndex: particleIndexAt(line.wavelength),
+        };
+        const diffracted: MixtureProfiles = sampleMode === 'mixture'
+          ? createMixtureProfiles(model, lineParams, mixtureAt(line.wavelength))
+          : singleProfiles(sampleMode === 'coated'
+            ? computeCoatedScattering(coatedParticle, lineParams)
+            : computeEnsemble(model, lineParams, distribution));
+        const { smooth } = lineIlluminations[i];
+        const smoothed = smooth(diffracted.total);
+        if (!multipleScattering) {
+          return {
+            total: smoothed,
+            components: diffracted.components.map(smooth),
+            polarized: diffracted.polarized,
+            painted: diffracted.polarized,
+          };
+        }
+        
+        // Light scattered more than once spreads into a halo; components
+        // keep their share of the total at each angle, and the halo is
+        // taken as depolarized
+        const { single, multiple } = applyMultipleScattering(smoothed, depth, angleAt(Math.hypot(centerX, centerY)));
+        const scattered = (profile: IntensityProfile) => (theta: number) => single * profile(theta) + multiple(theta);
+        const total = scattered(smoothed);
+        return {
+          total,
+          components: diffracted.components.map(smooth).map((component) => (theta: number) => {
+            const undistorted = smoothed(theta);
+            return undistorted > 0 ? (component(theta) * total(theta)) / undistorted : 0;
+          }),
+          polarized: diffracted.polarized,
+          painted: diffracted.polarized && {
+            perpendicular: scattered(diffracted.polarized.perpendicular),
+            parallel: scattered(diffracted.polarized.parallel),
+          },
+        };
+      });
+      const detectedAt = (line: number, theta: number) => lineIlluminations[line].detect(perLine[line].total(theta), theta);
+      const image = ctx.createImageData(width, height);
+      const intensities = sensorBuffer();
+      // Scalar diffraction does not depend on polarization
+      if (model === 'mie' && polarization.state === 'linear') {
+        paintPolarized(image, (line) => perLine[line].painted, intensities);
+      } else {
+        paintRadial(image, detectedAt, intensities);
+      }
+      
+      // Diffraction alone for model comparison; the chart shows what is detected
+      const profile = spectralSum((line, theta) => perLine[line].total(theta));
+      const detected: MixtureProfiles = {
+        total: spectralSum(detectedAt),
+        components: polychromatic ? [] : perLine[0]?.components ?? [],
+      };
+      const polarized: PolarizedProfiles = {
+        perpendicular: spectralSum((line, theta) => perLine[line].polarized.perpendicular(theta)),
+        parallel: spectralSum((line, theta) => perLine[line].polarized.parallel(theta)),
+      };
+      return { profile, detected, polarized, image, intensities };
+    };
+    
+    // 2D Fraunhofer patterns depend on sin θ / λ only, so one computed at the
+    // shortest line serves every line of the source
+    const shortestLine = lines.length > 0 ? Math.min(...lines.map((line) => line.wavelength)) : parseFloat(wavelength);
+    const scaledAngle = (line: number, theta: number) =>
+      Math.asin(Math.min(1, (Math.sin(theta) * shortestLine) / lines[line].wavelength));
+    const renderAngular = (pattern: AngularPattern) => {
+      const image = ctx.createImageData(width, height);
+      sensor = sensorBuffer();
+      paintAngular(image, (line, theta, phi) =>
+        lineIlluminations[line].detect(pattern.intensityAt(scaledAngle(line, theta), phi), theta),
+        sensor
+      );
+      ctx.putImageData(image, 0, 0);
+      const diffracted = spectralSum((line, theta) => pattern.azimuthalMean(scaledAngle(line, theta)));
+      sampleProfile(
+        { total: spectralSum((line, theta) => lineIlluminations[line].detect(diffracted(theta), theta)), components: [] },
+        diffracted
+      );
+      setDivergenceAngle(null);
+    };
+    
+    // Sample the detected profile for the chart below the canvas, and the
+    // diffracted light alone (no undiffracted beam or beam stop) for inversion
+    // and the ring detectors, which sit outside the focused beam
+    const sampleProfile = (
+      { total, components }: MixtureProfiles,
+      diffracted: IntensityProfile,
+      reference?: { label: string; profile: IntensityProfile }
+    ) => {
+      const thetaMax = angleAt(centerX);
+      const theta = Array.from({ length: PROFILE_SAMPLES }, (_, i) => (i / (PROFILE_SAMPLES - 1)) * thetaMax);
+      setRadialProfile({
+        theta,
+        radius: theta.map((t) => angleToRadius(geometry, detectorLength, t, refractiveMedium) * 1000),
+        total: theta.map(total),
+        diffracted: theta.map(diffracted),
+        components: components.map((component, i) => ({
+          label: materialOptions.find((m) => m.value === mixture.components[i].material)?.label ?? mixture.components[i].material,
+          color: componentColors[i % componentColors.length],
+          values: theta.map(component),
+        })),
+        reference: reference && { label: reference.label, values: theta.map(reference.profile) },
+      });
+      setDetectorReadings(showDetectors ? detectorSignals(detectorRings, diffracted, geometry, detectorLength, refractiveMedium) : null);
+    };
+    
+    // Both polarizations from forward to back scattering, without the beam
+    const samplePolarization = (polarized: PolarizedProfiles | null) => {
+      if (!polarized) {
+        setPolarizationProfile(null);
+        return;
+      }
+      const theta = Array.from({ length: POLARIZATION_SAMPLES }, (_, i) => (i / (POLARIZATION_SAMPLES - 1)) * Math.PI);
+      setPolarizationProfile({
+        theta,
+        perpendicular: theta.map(polarized.perpendicular),
+        parallel: theta.map(polarized.parallel),
+      });
+    };
+    
+    if (sampleMode === 'shape') {
+      // Non-circular silhouettes go through a 2D FFT (Fraunhofer only); the
+      // beam's divergence blur only applies to the radial models
+      renderAngular(computeShapePattern(
+        shapeSettings,
+        particleSizeSI,
+        shortestLine * 1e-9 / params.mediumIndex,
+        angleAt(Math.hypot(centerX, centerY))
+      ));
+      samplePolarization(null);
+    } else if (sampleMode === 'tumbling') {
+      // Silhouettes averaged over the orientation distribution (Fraunhofer),
+      // and what a sphere-based inversion makes of them
+      const lineWavelength = shortestLine * 1e-9 / params.mediumIndex;
+      renderAngular(computeTumblingPattern(
+        orientationSettings,
+        particleSizeSI,
+        lineWavelength,
+        angleAt(Math.hypot(centerX, centerY))
+      ));
+      samplePolarization(null);
+      setSphereEquivalent(equivalentSphere(
+        tumblingProfile(orientationSettings, particleSizeSI, wavelengthSI / params.mediumIndex),
+        params,
+        parseFloat(particleSize),
+        angleAt(centerX)
+      ));
+    } else if (ensembleActive) {
+      // Coherent sum over randomly placed particles (Fraunhofer amplitudes)
+      renderAngular(computeSpecklePattern(
+        ensembleSettings,
+        convertBasis(discretizeDistribution(distribution), distributionBasis, 'number'),
+        shortestLine * 1e-9 / params.mediumIndex
+      ));
+      samplePolarization(null);
+    } else if (sampleMode === 'coated') {
+      // Layered-sphere Mie, against a homogeneous sphere of the core material
+      // with the same outer diameter
+      const rendered = renderModel('mie');
+      ctx.putImageData(rendered.image, 0, 0);
+      sensor = rendered.intensities;
+      const uncoated = lines.map((line, i) => lineIlluminations[i].smooth(computeScattering('mie', {
+        ...params,
+        wavelength: line.wavelength * 1e-9,
+        particleSize: coatedOuterDiameter(coatedParticle) * 1e-6,
+        particleIndex: complex(coatedParticle.coreIndex.real, coatedParticle.coreIndex.imag || 0),
+      }).profile));
+      sampleProfile(rendered.detected, rendered.profile, {
+        label: 'Uncoated',
+        profile: spectralSum((line, theta) => lineIlluminations[line].detect(uncoated[line](theta), theta)),
+      });
+      samplePolarization(rendered.polarized);
+      setDivergenceAngle(null);
+    } else if (modelView === 'compare') {
+      // Fraunhofer on the left half, Mie on the right half
+      const fraunhofer = renderModel('fraunhofer');
+      const mie = renderModel('mie');
+      ctx.putImageData(fraunhofer.image, 0, 0, 0, 0, centerX, height);
+      ctx.putImageData(mie.image, 0, 0, centerX, 0, width - centerX, height);
+      sensor = mie.intensities;
+      if (sensor && fraunhofer.intensities) {
+        for (let y = 0; y < height; y++) {
+          sensor.set(fraunhofer.intensities.subarray(y * width, y * width + Math.round(centerX)), y * width);
+        }
+      }
+      sampleProfile(mie.detected, mie.profile);
+      samplePolarization(mie.polarized);
+      
+      // Mark where the ring envelopes of the two models part ways
+      const thetaMax = angleAt(Math.hypot(centerX, centerY));
+      const divergence = findModelDivergence(fraunhofer.profile, mie.profile, params, thetaMax);
+      setDivergenceAngle(divergence);
+      comparison = { divergence };
+    } else {
+      const rendered = renderModel(modelView);
+      ctx.putImageData(rendered.image, 0, 0);
+      sensor = rendered.intensities;
+      sampleProfile(rendered.detected, rendered.profile);
+      samplePolarization(modelView === 'mie' ? rendered.polarized : null);
+      setDivergenceAngle(null);
+    }
+    
+    // The camera's frame replaces the ideal pattern under the overlays
+    if (sensor) {
+      const frame = ctx.createImageData(width, height);
+      setCameraReadout(applyCamera(frame, sensor, cameraSettings, displaySettings, sourceColor));
+      ctx.putImageData(frame, 0, 0);
+    } else {
+      setCameraReadout(null);
+    }
+    frameRef.current = ctx.getImageData(0, 0, width, height);
     
     // Draw coordinate lines for reference
     ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+    ctx.lineWidth = 1;
     ctx.beginPath();
     ctx.moveTo(centerX, 0);
     ctx.lineTo(centerX, height);
@@ -60,59 +768,156 @@ const LaserDiffraction = () => {
     ctx.lineTo(width, centerY);
     ctx.stroke();
     
-    // Calculate the locations of the diffraction rings
-    // Using the formula: sin(θ) = mλ/d
-    // Where θ is the angle, m is the order, λ is wavelength, d is particle size
-    const maxOrder = 10; // Increased number of rings to display
-    
-    // Draw the central bright spot first
-    ctx.beginPath();
-    ctx.fillStyle = 'rgba(255, 0, 0, 0.8)';
-    ctx.arc(centerX, centerY, 5, 0, Math.PI * 2);
-    ctx.fill();
+    // Outline the beam stop
+    if (illumination.stopRadius > 0) {
+      ctx.save();
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+      ctx.setLineDash([3, 3]);
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, illumination.stopRadius * scaleFactor, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+    }
     
-    // Apply zoom factor to the scale
-    const baseScaleFactor = 4000; 
-    const scaleFactor = baseScaleFactor * zoomLevel[0];
+    // Outline the ring detectors; their radii are fixed on the detector plane
+    if (showDetectors) {
+      ctx.strokeStyle = 'rgba(0, 200, 255, 0.35)';
+      const edges = [detectorRings[0]?.innerRadius, ...detectorRings.map((ring) => ring.outerRadius)];
+      for (const edge of edges) {
+        if (edge === undefined) continue;
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, edge * 1e-3 * scaleFactor, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
     
-    for (let m = 1; m <= maxOrder; m++) {
-      // Calculate angle for this order
-      const sinTheta = m * wavelengthSI / particleSizeSI;
-      
-      // If the angle would be > 1 (beyond 90 degrees), skip this ring
-      if (Math.abs(sinTheta) >= 1) continue;
-      
-      const theta = Math.asin(sinTheta);
-      
-      // Calculate radius on the screen based on distance and angle
-      // Using R = D * tan(θ) where D is distance to screen
-      const radius = distanceSI * Math.tan(theta);
+    // Name the two halves of the comparison and circle where they diverge
+    if (comparison) {
+      if (comparison.divergence !== null) {
+        ctx.save();
+        ctx.strokeStyle = 'rgba(255, 255, 0, 0.8)';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([6, 4]);
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, radiusAt(comparison.divergence), 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.restore();
+      }
       
-      // Convert to screen coordinates (pixels)
-      // Use zoom level to adjust visibility
-      const pixelRadius = radius * scaleFactor;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.font = '14px Arial';
+      ctx.fillText(scatteringModelLabels.fraunhofer, 10, 20);
+      ctx.fillText(scatteringModelLabels.mie, width - 10 - ctx.measureText(scatteringModelLabels.mie).width, 20);
+    }
+    
+    // Label the bright rings of the Airy pattern on the Fraunhofer side;
+    // a spread of sizes has no single set of ring positions
+    if (modelView === 'mie' || modelView === 'fresnel') return;
+    if (sampleMode !== 'single' || distributionKind !== 'monodisperse' || polychromatic) return;
+    
+    const maxOrder = 10; // Increased number of rings to display
+    const { maxima } = computeAiryPattern(wavelengthSI / params.mediumIndex, particleSizeSI, maxOrder);
+    
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    ctx.font = '12px Arial';
+    for (const ring of maxima) {
+      const pixelRadius = radiusAt(ring.theta);
       
-      // Only draw if the ring fits on the canvas
+      // Only label rings that fit on the canvas
       if (pixelRadius <= Math.min(width, height) / 2) {
-        // Draw the ring with increased thickness and opacity
-        ctx.beginPath();
-        ctx.strokeStyle = `rgba(255, 0, 0, 0.9)`;
-        ctx.lineWidth = 3; // Thicker lines for better visibility
-        ctx.arc(centerX, centerY, pixelRadius, 0, Math.PI * 2);
-        ctx.stroke();
-        
-        // Add ring number for reference
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
-        ctx.font = '12px Arial';
-        ctx.fillText(`m=${m}`, centerX + pixelRadius + 5, centerY);
+        const label = `m=${ring.order}`;
+        const labelX = modelView === 'compare'
+          ? centerX - pixelRadius - 5 - ctx.measureText(label).width
+          : centerX + pixelRadius + 5;
+        ctx.fillText(label, labelX, centerY - 4);
       }
     }
   };
 
-  // Generate pattern on component mount and when inputs change
+  // Generate pattern on component mount and when inputs change. The speckle
+  // ensemble takes seconds, so it waits until typing pauses
+  useEffect(() => {
+    if (!ensembleActive) {
+      generatePattern();
+      return;
+    }
+    const timer = setTimeout(generatePattern, ENSEMBLE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [
+    wavelength,
+    spectrumSettings,
+    distance,
+    geometry,
+    focalLength,
+    particleSize,
+    selectedMaterial,
+    zoomLevel,
+    displaySettings,
+    modelView,
+    particleIndexReal,
+    particleIndexImag,
+    mediumIndex,
+    distributionKind,
+    distributionWidth,
+    distributionBasis,
+    histogram,
+    sampleMode,
+    shapeSettings,
+    coatedParticle,
+    orientationSettings,
+    ensembleSettings,
+    beamSettings,
+    concentrationSettings,
+    cameraSettings,
+    polarization,
+    mixture,
+    materials,
+    detectorArray,
+    showDetectors,
+  ]);
+
+  // Highlight the ring under the chart cursor (or the mouse) on the overlay canvas
   useEffect(() => {
-    generatePattern();
-  }, [wavelength, distance, particleSize, selectedMaterial, zoomLevel]);
+    const overlay = overlayCanvasRef.current;
+    const ctx = overlay?.getContext('2d');
+    if (!overlay || !ctx) return;
+    
+    ctx.clearRect(0, 0, overlay.width, overlay.height);
+    if (hoverTheta === null) return;
+    
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    const ringRadius = angleToRadius(geometry, detectorLength, hoverTheta, refractiveMedium) * scaleFactor;
+    ctx.arc(overlay.width / 2, overlay.height / 2, ringRadius, 0, Math.PI * 2);
+    ctx.stroke();
+    
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.font = '12px Arial';
+    ctx.fillText(`θ = ${(hoverTheta * 180 / Math.PI).toFixed(2)}°`, 10, overlay.height - 10);
+  }, [hoverTheta, geometry, detectorLength, scaleFactor, refractiveMedium]);
+
+  // Track the scattering angle under the mouse for the chart cursor
+  const handleCanvasMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    // Canvas pixels may be scaled by CSS; clientLeft/Top skip the border
+    const x = (e.clientX - rect.left - canvas.clientLeft) * canvas.width / canvas.clientWidth;
+    const y = (e.clientY - rect.top - canvas.clientTop) * canvas.height / canvas.clientHeight;
+    setHoverTheta(angleAt(Math.hypot(x - canvas.width / 2, y - canvas.height / 2)));
+  };
+
+  // Reset the spread to a sensible value for the chosen distribution shape
+  const changeDistributionKind = (kind: DistributionKind) => {
+    setDistributionKind(kind);
+    setDistributionWidth((defaultDistributionWidths[kind] ?? 0).toString());
+  };
+
+  // Presets fill in their index; a custom medium keeps the current one to edit
+  const changeMedium = (medium: SuspendingMedium) => {
+    setSuspendingMedium(medium);
+    if (medium !== 'custom') setMediumIndex(suspendingMediumIndices[medium].toString());
+  };
 
   // Take a screenshot of the canvas with parameters
   const takeScreenshot = () => {
@@ -126,7 +931,7 @@ const LaserDiffraction = () => {
     
     // Set screenshot canvas dimensions
     screenshotCanvas.width = mainCanvas.width;
-    screenshotCanvas.height = mainCanvas.height + 100; // Extra space for parameters
+    screenshotCanvas.height = mainCanvas.height + 275; // Extra space for parameters
     
     // Fill background
     ctx.fillStyle = '#f5f5f5';
@@ -142,19 +947,132 @@ const LaserDiffraction = () => {
     let yPos = mainCanvas.height + 20;
     
     // Material name with first letter capitalized
-    const materialName = selectedMaterial === 'custom' 
-      ? 'Custom' 
-      : selectedMaterial.charAt(0).toUpperCase() + selectedMaterial.slice(1);
+    const materialName = currentMaterial?.name ?? 'Custom';
     
     ctx.fillText(`Material: ${materialName}`, padding, yPos);
-    ctx.fillText(`Wavelength: ${wavelength} nm`, padding + 180, yPos);
+    const sourceLabel = polychromatic
+      ? `Source: ${sourceSpectrumLabels[spectrumSettings.kind]}`
+        + (spectrumSettings.kind === 'blackbody' ? ` (${spectrumSettings.temperature} K)` : '')
+      : `Wavelength: ${wavelength} nm`;
+    ctx.fillText(sourceLabel, padding + 180, yPos);
+    
+    // Swatch of the source color next to the wavelength
+    const swatchX = Math.max(padding + 340, padding + 188 + ctx.measureText(sourceLabel).width);
+    ctx.fillStyle = rgbToCss(sourceColor);
+    ctx.fillRect(swatchX, yPos - 12, 14, 14);
+    ctx.strokeStyle = '#333';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(swatchX, yPos - 12, 14, 14);
+    ctx.fillStyle = '#333';
     yPos += 25;
     
-    ctx.fillText(`Particle Size: ${particleSize} μm`, padding, yPos);
-    ctx.fillText(`Screen Distance: ${distance} cm`, padding + 180, yPos);
+    ctx.fillText(
+      sampleMode === 'single' && distributionKind === 'histogram'
+        ? 'Particle Size: custom histogram'
+        : `${sizeLabel}: ${particleSize} μm`,
+      padding,
+      yPos
+    );
+    ctx.fillText(
+      `${detectorGeometryLabels[geometry]}, ${detectorLengthLabels[geometry]}: ${geometry === 'lens' ? focalLength : distance} cm`,
+      padding + 180,
+      yPos
+    );
     yPos += 25;
     
     ctx.fillText(`Zoom Level: ${zoomLevel[0].toFixed(1)}x`, padding, yPos);
+    ctx.fillText(`Display: ${displayMappingLabels[displaySettings.mapping]}`, padding, yPos + 25);
+    ctx.fillText(
+      `Model: ${sampleMode === 'shape'
+        ? 'Fraunhofer (2D FFT)'
+        : sampleMode === 'tumbling' ? 'Fraunhofer (Orientation Average)'
+        : sampleMode === 'coated' ? 'Mie (Coated Sphere)'
+        : ensembleActive ? 'Fraunhofer (Coherent Sum)'
+        : modelView === 'compare' ? 'Fraunhofer vs. Mie' : scatteringModelLabels[modelView]}`
+        + (sampleMode === 'coated'
+          ? ` (medium ${mediumIndex})`
+          : ` (n = ${particleIndexReal} + ${particleIndexImag}i, medium ${mediumIndex})`)
+        + (polarization.state !== 'unpolarized' ? `, ${describePolarization(polarization)} Polarization` : ''),
+      padding + 180,
+      yPos + 25
+    );
+    
+    const widthLabel = distributionWidthLabels[distributionKind];
+    const sampleDescriptions: Record<SampleMode, string> = {
+      single: `Distribution: ${distributionKindLabels[distributionKind]}`
+        + (widthLabel ? `, ${widthLabel} ${distributionWidth}` : '')
+        + (distributionKind !== 'monodisperse' ? ` (by ${distributionBasis})` : '')
+        + (ensembleActive
+          ? `; ${ensembleSettings.particleCount} random particles in a ${ensembleSettings.beamDiameter} mm beam,`
+            + ` seed ${ensembleSettings.seed}, ${ensembleSettings.realizations} realization(s)`
+          : ''),
+      mixture: `Mixture: ${mixture.components
+        .map((c) => `${c.fraction}% ${materials.find((m) => m.id === c.material)?.name ?? c.material}`)
+        .join(' + ')} (by ${mixture.basis})`,
+      shape: `Shape: ${particleShapeLabels[shapeSettings.shape]}, rotated ${shapeSettings.rotation}° (2D FFT)`,
+      tumbling: `Tumbling ${tumblingFormLabels[orientationSettings.form]}: aspect ratio ${orientationSettings.aspectRatio},`
+        + ` order parameter S = ${orientationSettings.order}`
+        + (orientationSettings.form === 'fiber' ? `, flow at ${orientationSettings.flowAngle}°` : '')
+        + (sphereEquivalent ? `; sphere-equivalent D50 ${sphereEquivalent.d50.toFixed(2)} μm` : ''),
+      coated: `Coated Sphere: ${coatedParticle.coreDiameter} μm core`
+        + ` (n = ${coatedParticle.coreIndex.real} + ${coatedParticle.coreIndex.imag}i),`
+        + ` ${coatedParticle.shellThickness} μm shell (n = ${coatedParticle.shellIndex.real} + ${coatedParticle.shellIndex.imag}i)`,
+    };
+    ctx.fillText(sampleDescriptions[sampleMode], padding, yPos + 50);
+    
+    if (sampleStatistics) ctx.fillText(formatStatisticsSummary(sampleStatistics), padding, yPos + 75);
+    if (geometry !== 'lens') {
+      ctx.fillText(`Fresnel Number: ${fresnel.toPrecision(2)} (${diffractionRegimeLabels[regime]})`, padding, yPos + 100);
+    }
+    if (beamSettings.enabled) {
+      ctx.fillText(
+        `Beam: waist ${beamSettings.waistDiameter} mm, M² ${beamSettings.mSquared.toPrecision(3)},`
+          + ` divergence ${(beamDivergence(beamSettings, parseFloat(wavelength) * 1e-9) * 1000).toPrecision(2)} mrad,`
+          + ` beam stop ${beamSettings.stopDiameter > 0 ? `${beamSettings.stopDiameter} mm` : 'none'}`,
+        padding,
+        yPos + 125
+      );
+    }
+    if (refractiveMedium !== 1) {
+      ctx.fillText(
+        `Medium: ${suspendingMediumLabels[suspendingMedium]} (n = ${mediumIndex}), λ in medium`
+          + ` ${(wavelengthInMedium * 1e9).toFixed(0)} nm; angles refracted at the cell window (n·sin θ = sin θ_air)`,
+        padding,
+        yPos + 150
+      );
+    }
+    if (concentrationSettings.enabled) {
+      ctx.fillText(
+        `Concentration: ${concentrationSettings.volumeFraction}% by volume over ${concentrationSettings.pathLength} mm,`
+          + ` obscuration ${(obscuration(depth) * 100).toFixed(1)}% (τ = ${depth.toFixed(3)})`
+          + (multipleScattering ? ', multiple scattering included' : ''),
+        padding,
+        yPos + 175
+      );
+    }
+    if (cameraSettings.enabled) {
+      ctx.fillText(
+        `Camera: ${cameraSettings.exposure} ms exposure, ${cameraSettings.bitDepth}-bit, gain ${cameraSettings.gain} DN/e⁻,`
+          + ` full well ${cameraSettings.fullWell} e⁻, read noise ${cameraSettings.readNoise} e⁻, seed ${cameraSettings.seed}`,
+        padding,
+        yPos + 200
+      );
+    }
+    
+    // First dark ring of the Airy pattern (sin θ = 1.22 λ/d)
+    const { minima } = computeAiryPattern(
+      wavelengthInMedium,
+      parseFloat(particleSize) * 1e-6
+    );
+    if (minima.length > 0) {
+      const theta = minima[0].theta;
+      const radiusMm = angleToRadius(geometry, detectorLength, theta, refractiveMedium) * 1000;
+      ctx.fillText(
+        `1st Dark Ring: ${(theta * 180 / Math.PI).toFixed(2)}° (${radiusMm.toFixed(1)} mm)`,
+        padding + 180,
+        yPos
+      );
+    }
     
     // Draw timestamp
     const date = new Date();
@@ -169,107 +1087,608 @@ const LaserDiffraction = () => {
     link.click();
   };
 
+  // Memoized so the photo analysis only refits when the index really changes
+  const particleIndex = useMemo(
+    () => complex(parseFloat(particleIndexReal), parseFloat(particleIndexImag) || 0),
+    [particleIndexReal, particleIndexImag]
+  );
+
+  // The simulated pattern (camera frame included) as a photo to analyze;
+  // the analysis assumes a flat screen
+  const simulatedFrame = (): SimulatedFrame | null =>
+    geometry === 'screen' && frameRef.current
+      ? { image: frameRef.current, millimetersPerPixel: 1000 / scaleFactor }
+      : null;
+
+  // Photo analysis and inversion fit the far-field models only
+  const fitModel: ScatteringModel = modelView === 'compare' ? 'mie' : modelView === 'fresnel' ? 'fraunhofer' : modelView;
+
+  // Fresnel number of the largest particles present. A lens puts the
+  // detector in the far field whatever the particle size.
+  const largestSize = Math.max(0, ...sizeBins.sizes.filter((_, i) => sizeBins.weights[i] > 1e-3)) * 1e-6;
+  const fresnel = geometry === 'lens' ? 0 : fresnelNumber(wavelengthInMedium, largestSize, detectorLength);
+  const regime = diffractionRegime(fresnel);
+  // Distance beyond which the far field holds (N_F < 0.01), in cm
+  const farFieldDistance = (largestSize * largestSize) / (4 * 0.01 * wavelengthInMedium) * 100;
+
+  // Speckle resolution limit, reported when the canvas reaches past it
+  const speckleLimit = speckleAngleLimit(ensembleSettings, wavelengthInMedium);
+  const speckleCutoff = cornerAngle > speckleLimit ? speckleLimit : null;
+
+  const inversionParams: ScatteringParams = useMemo(() => ({
+    wavelength: parseFloat(wavelength) * 1e-9,
+    particleSize: 0,
+    particleIndex,
+    mediumIndex: parseFloat(mediumIndex) || 1,
+  }), [wavelength, particleIndex, mediumIndex]);
+
   return (
     <div className={styles.container}>
       <h1 className={styles.title}>Laser Particle Size VLab</h1>
-      
-      <div className={styles.controls}>
-        <label className={styles.label}>
-          Wavelength (nm):
-          <input
-            type="number"
-            value={wavelength}
-            onChange={(e) => setWavelength(e.target.value)}
-            className={styles.input}
-            min="400"
-            max="700"
+
+      <Tabs defaultValue="simulate">
+        <TabsList className={styles.tabs}>
+          <TabsTrigger value="simulate">Simulate</TabsTrigger>
+          <TabsTrigger value="analyze">Analyze Photo</TabsTrigger>
+        </TabsList>
+
+        {/* Kept mounted so the pattern canvas survives tab switches */}
+        <TabsContent value="simulate" forceMount className="data-[state=inactive]:hidden">
+          <div className={styles.controls}>
+            <label className={styles.label}>
+              Wavelength (nm):
+              <input
+                type="number"
+                value={wavelength}
+                onChange={(e) => setWavelength(e.target.value)}
+                className={styles.input}
+                min="400"
+                max="700"
+              />
+            </label>
+
+            <label className={styles.label}>
+              Light Source:
+              <select
+                value={spectrumSettings.kind}
+                onChange={(e) => setSpectrumSettings({ ...spectrumSettings, kind: e.target.value as SourceSpectrum })}
+                className={styles.select}
+              >
+                {(Object.keys(sourceSpectrumLabels) as SourceSpectrum[]).map((kind) => (
+                  <option key={kind} value={kind}>{sourceSpectrumLabels[kind]}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className={styles.label}>
+              Detector:
+              <select
+                value={geometry}
+                onChange={(e) => setGeometry(e.target.value as DetectorGeometry)}
+                className={styles.select}
+              >
+                {(Object.keys(detectorGeometryLabels) as DetectorGeometry[]).map((g) => (
+                  <option key={g} value={g}>{detectorGeometryLabels[g]}</option>
+                ))}
+              </select>
+            </label>
+
+            {geometry === 'lens' ? (
+              <label className={styles.label}>
+                {detectorLengthLabels.lens} (cm):
+                <input
+                  type="number"
+                  value={focalLength}
+                  onChange={(e) => setFocalLength(e.target.value)}
+                  className={styles.input}
+                  min="1"
+                  max="200"
+                />
+              </label>
+            ) : (
+              <label className={styles.label}>
+                {detectorLengthLabels[geometry]} (cm):
+                <input
+                  type="number"
+                  value={distance}
+                  onChange={(e) => setDistance(e.target.value)}
+                  className={styles.input}
+                  min="10"
+                  max="500"
+                />
+              </label>
+            )}
+
+            <label className={styles.label}>
+              {sizeLabel} (µm):
+              <input
+                type="number"
+                value={sampleMode === 'coated' ? coatedOuterDiameter(coatedParticle) : particleSize}
+                onChange={(e) => setParticleSize(e.target.value)}
+                className={styles.input}
+                disabled={
+                  selectedMaterial !== 'custom'
+                  || sampleMode === 'mixture'
+                  || sampleMode === 'coated'
+                  || (sampleMode === 'single' && distributionKind === 'histogram')
+                }
+                min="1"
+                max="100"
+              />
+            </label>
+
+            <label className={styles.label}>
+              Sample:
+              <select
+                value={sampleMode}
+                onChange={(e) => setSampleMode(e.target.value as SampleMode)}
+                className={styles.select}
+              >
+                <option value="single">Single Material</option>
+                <option value="mixture">Mixture</option>
+                <option value="shape">Shaped Particle (2D FFT)</option>
+                <option value="coated">Coated Sphere (Core-Shell)</option>
+                <option value="tumbling">Tumbling Fibers / Platelets</option>
+              </select>
+            </label>
+
+            <label className={styles.label}>
+              Material:
+              <select
+                value={selectedMaterial}
+                onChange={(e) => selectMaterial(e.target.value)}
+                className={styles.select}
+                disabled={sampleMode === 'mixture' || sampleMode === 'coated'}
+              >
+                {materials.map((material) => (
+                  <option key={material.id} value={material.id}>{material.name}</option>
+                ))}
+                <option value="custom">Custom</option>
+              </select>
+            </label>
+
+            <label className={styles.label}>
+              Scattering Model:
+              <select
+                value={modelView}
+                onChange={(e) => setModelView(e.target.value as ModelView)}
+                className={styles.select}
+                disabled={sampleMode === 'shape' || sampleMode === 'coated' || sampleMode === 'tumbling' || ensembleActive}
+              >
+                <option value="fraunhofer">{scatteringModelLabels.fraunhofer}</option>
+                <option value="fresnel">{scatteringModelLabels.fresnel}</option>
+                <option value="mie">{scatteringModelLabels.mie}</option>
+                <option value="compare">Side by Side</option>
+              </select>
+            </label>
+
+            <label className={styles.label}>
+              Polarization:
+              <select
+                value={polarization.state}
+                onChange={(e) => setPolarization({ ...polarization, state: e.target.value as PolarizationState })}
+                className={styles.select}
+              >
+                {(Object.keys(polarizationStateLabels) as PolarizationState[]).map((state) => (
+                  <option key={state} value={state}>{polarizationStateLabels[state]}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className={styles.label}>
+              Polarization Angle (°):
+              <input
+                type="number"
+                value={polarization.angle}
+                onChange={(e) => setPolarization({ ...polarization, angle: parseFloat(e.target.value) || 0 })}
+                className={styles.input}
+                disabled={polarization.state !== 'linear'}
+                min="0"
+                max="180"
+                step="5"
+              />
+            </label>
+
+            <label className={styles.label}>
+              Particle Index (n):
+              <input
+                type="number"
+                value={particleIndexReal}
+                onChange={(e) => setParticleIndexReal(e.target.value)}
+                className={styles.input}
+                disabled={modelView === 'fraunhofer' || modelView === 'fresnel' || sampleMode === 'coated' || selectedMaterial !== 'custom'}
+                min="1"
+                max="3"
+                step="0.01"
+              />
+            </label>
+
+            <label className={styles.label}>
+              Absorption (k):
+              <input
+                type="number"
+                value={particleIndexImag}
+                onChange={(e) => setParticleIndexImag(e.target.value)}
+                className={styles.input}
+                disabled={modelView === 'fraunhofer' || modelView === 'fresnel' || sampleMode === 'coated' || selectedMaterial !== 'custom'}
+                min="0"
+                max="5"
+                step="0.001"
+              />
+            </label>
+
+            <label className={styles.label}>
+              Medium:
+              <select
+                value={suspendingMedium}
+                onChange={(e) => changeMedium(e.target.value as SuspendingMedium)}
+                className={styles.select}
+              >
+                {(Object.keys(suspendingMediumLabels) as SuspendingMedium[]).map((medium) => (
+                  <option key={medium} value={medium}>{suspendingMediumLabels[medium]}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className={styles.label}>
+              Medium Index:
+              <input
+                type="number"
+                value={mediumIndex}
+                onChange={(e) => setMediumIndex(e.target.value)}
+                className={styles.input}
+                disabled={suspendingMedium !== 'custom'}
+                min="1"
+                max="2"
+                step="0.01"
+              />
+            </label>
+
+            <MaterialLibrary
+              materials={materials}
+              onSave={saveMaterial}
+              onClone={cloneMaterial}
+              onDelete={deleteMaterial}
+              storageError={storageError}
+            />
+
+            <button onClick={generatePattern} className={styles.button}>
+              Generate Diffraction Pattern
+            </button>
+          </div>
+
+          {refractiveMedium !== 1 && (
+            <p className={styles.note}>
+              Wet dispersion in {suspendingMediumLabels[suspendingMedium].toLowerCase()} (n = {mediumIndex}): the
+              wavelength in the cell is {(wavelengthInMedium * 1e9).toFixed(0)} nm and the Mie model sees the relative
+              index m = {(parseFloat(particleIndexReal) / refractiveMedium).toFixed(3)}. Scattered light refracts at the
+              cell window (n·sin θ = sin θ_air), which for Fraunhofer rings exactly undoes the shorter wavelength, so
+              their radii on the detector match a dry measurement.
+            </p>
+          )}
+
+          {polarization.state !== 'unpolarized' && (
+            <p className={styles.note}>
+              {polarization.state === 'linear'
+                ? 'With linear polarization the Mie pattern is no longer round: along the field direction the scattering '
+                  + 'plane sees |S2|², across it |S1|². '
+                : 'Circular polarization splits evenly between the two planes at every azimuth, so the pattern matches '
+                  + 'unpolarized light. '}
+              Fraunhofer and Fresnel diffraction are scalar and ignore polarization.
+            </p>
+          )}
+
+          {polychromatic && (
+            <SpectrumEditor
+              settings={spectrumSettings}
+              onChange={setSpectrumSettings}
+              laserWavelength={parseFloat(wavelength)}
+            />
+          )}
+
+          {geometry === 'lens' ? (
+            <p className={styles.note}>
+              Behind the Fourier lens the detector records the far-field pattern for any particle position.
+            </p>
+          ) : (
+            <p className={cn(styles.note, regime !== 'far-field' && modelView !== 'fresnel' && styles.warning)}>
+              Fresnel number N<sub>F</sub> = a²/(λL) = {fresnel.toPrecision(2)}: {diffractionRegimeLabels[regime]}.
+              {regime !== 'far-field' && modelView !== 'fresnel' && (
+                <> The far-field assumption of the {modelView === 'mie' || sampleMode === 'coated' ? 'Mie' : 'Fraunhofer'} model does not hold
+                  here; choose the Fresnel model or move the detector beyond {farFieldDistance.toFixed(0)} cm.</>
+              )}
+              {regime !== 'far-field' && modelView === 'fresnel' && (
+                <> The Fresnel model draws only the light scattered by the particle: behind the particle the
+                  unscattered beam interferes with it as well, which this view leaves out (including the bright
+                  Poisson spot on axis).</>
+              )}
+            </p>
+          )}
+
+          {sampleMode === 'single' && currentMaterial && (
+            <p className={styles.note}>
+              {currentMaterial.description}
+              {currentMaterial.reference && <> <em>({currentMaterial.reference})</em></>}
+              {currentMaterial.dispersion && (
+                <> Refractive index from {dispersionKindLabels[currentMaterial.dispersion.kind]} dispersion data:
+                  n = {particleIndexReal} at {wavelength} nm{polychromatic && ', and at each line of the source'}.</>
+              )}
+            </p>
+          )}
+
+          {sampleMode === 'shape' && (
+            <ShapeEditor settings={shapeSettings} onChange={setShapeSettings} />
+          )}
+
+          {sampleMode === 'tumbling' && (
+            <OrientationEditor
+              settings={orientationSettings}
+              onChange={setOrientationSettings}
+              particleSize={parseFloat(particleSize)}
+              volumeEquivalent={volumeEquivalentDiameter(orientationSettings, parseFloat(particleSize))}
+              equivalent={sphereEquivalent}
+            />
+          )}
+
+          {sampleMode === 'coated' && (
+            <CoatedEditor
+              particle={coatedParticle}
+              materials={materials}
+              wavelength={parseFloat(wavelength)}
+              onChange={setCoatedParticle}
+            />
+          )}
+
+          {sampleMode === 'mixture' && (
+            <MixtureEditor
+              mixture={mixture}
+              materials={materialOptions}
+              colors={componentColors}
+              onChange={setMixture}
+            />
+          )}
+
+          {sampleMode === 'single' && (
+            <div className={styles.displayControls}>
+              <label className={styles.label}>
+                Size Distribution:
+                <select
+                  value={distributionKind}
+                  onChange={(e) => changeDistributionKind(e.target.value as DistributionKind)}
+                  className={styles.select}
+                >
+                  {(Object.keys(distributionKindLabels) as DistributionKind[]).map((kind) => (
+                    <option key={kind} value={kind}>{distributionKindLabels[kind]}</option>
+                  ))}
+                </select>
+              </label>
+
+              {distributionWidthLabels[distributionKind] && (
+                <label className={styles.label}>
+                  {distributionWidthLabels[distributionKind]}:
+                  <input
+                    type="number"
+                    value={distributionWidth}
+                    onChange={(e) => setDistributionWidth(e.target.value)}
+                    className={styles.input}
+                    min="0"
+                    step={distributionKind === 'lognormal' ? '0.05' : '0.5'}
+                  />
+                </label>
+              )}
+
+              {distributionKind !== 'monodisperse' && (
+                <label className={styles.label}>
+                  Weighting:
+                  <select
+                    value={distributionBasis}
+                    onChange={(e) => setDistributionBasis(e.target.value as DistributionBasis)}
+                    className={styles.select}
+                  >
+                    <option value="volume">By Volume</option>
+                    <option value="number">By Number</option>
+                  </select>
+                </label>
+              )}
+            </div>
+          )}
+
+          {sampleMode === 'single' && distributionKind === 'histogram' && (
+            <HistogramEditor values={histogram} onChange={setHistogram} />
+          )}
+
+          {sampleMode === 'single' && distributionKind !== 'monodisperse' && (
+            <SizeDistributionChart bins={discretizeDistribution(distribution)} basis={distributionBasis} />
+          )}
+
+          <BeamPanel
+            settings={beamSettings}
+            onChange={setBeamSettings}
+            wavelength={parseFloat(wavelength) * 1e-9}
+            illumination={illumination}
           />
-        </label>
-        
-        <label className={styles.label}>
-          Screen Distance (cm):
-          <input
-            type="number"
-            value={distance}
-            onChange={(e) => setDistance(e.target.value)}
-            className={styles.input}
-            min="10"
-            max="500"
+
+          <ConcentrationPanel
+            settings={concentrationSettings}
+            onChange={setConcentrationSettings}
+            opticalDepth={depth}
+            obscuration={obscuration(depth)}
+            distorts={!singleScatteringOnly}
           />
-        </label>
-        
-        <label className={styles.label}>
-          Particle Size (µm):
-          <input
-            type="number"
-            value={particleSize}
-            onChange={(e) => setParticleSize(e.target.value)}
-            className={styles.input}
-            disabled={selectedMaterial !== 'custom'}
-            min="1"
-            max="100"
+
+          <CameraPanel
+            settings={cameraSettings}
+            onChange={setCameraSettings}
+            readout={cameraReadout ?? cameraStatistics(cameraSettings)}
           />
-        </label>
-        
-        <label className={styles.label}>
-          Material:
-          <select
-            value={selectedMaterial}
-            onChange={(e) => setSelectedMaterial(e.target.value)}
-            className={styles.select}
-          >
-            <option value="lycopodium">Lycopodium Powder</option>
-            <option value="silica">Silica Particles</option>
-            <option value="custom">Custom</option>
-          </select>
-        </label>
-        
-        <button onClick={generatePattern} className={styles.button}>
-          Generate Diffraction Pattern
-        </button>
-      </div>
-
-      <div className={styles.zoomControls}>
-        <label className={styles.zoomLabel}>
-          Zoom: {zoomLevel[0].toFixed(1)}x
-          <Slider
-            value={zoomLevel}
-            onValueChange={setZoomLevel}
-            min={0.1}
-            max={5}
-            step={0.1}
-            className={styles.zoomSlider}
+
+          {sampleMode === 'single' && (
+            <EnsemblePanel settings={ensembleSettings} onChange={setEnsembleSettings} angleLimit={speckleCutoff} />
+          )}
+
+          <div className={styles.displayControls}>
+            <label className={styles.label}>
+              Intensity Display:
+              <select
+                value={displaySettings.mapping}
+                onChange={(e) => setDisplaySettings({ ...displaySettings, mapping: e.target.value as DisplayMapping })}
+                className={styles.select}
+              >
+                {(Object.keys(displayMappingLabels) as DisplayMapping[]).map((mapping) => (
+                  <option key={mapping} value={mapping}>{displayMappingLabels[mapping]}</option>
+                ))}
+              </select>
+            </label>
+
+            {displaySettings.mapping === 'gamma' && (
+              <label className={styles.label}>
+                Gamma:
+                <input
+                  type="number"
+                  value={displaySettings.gamma}
+                  onChange={(e) => setDisplaySettings({ ...displaySettings, gamma: parseFloat(e.target.value) || 1 })}
+                  className={styles.input}
+                  min="1"
+                  max="10"
+                  step="0.5"
+                />
+              </label>
+            )}
+
+            {displaySettings.mapping === 'log' && (
+              <label className={styles.label}>
+                Dynamic Range (decades):
+                <input
+                  type="number"
+                  value={displaySettings.logDecades}
+                  onChange={(e) => setDisplaySettings({ ...displaySettings, logDecades: parseFloat(e.target.value) || 1 })}
+                  className={styles.input}
+                  min="1"
+                  max="8"
+                  step="0.5"
+                />
+              </label>
+            )}
+          </div>
+
+          <div className={styles.zoomControls}>
+            <label className={styles.zoomLabel}>
+              Zoom: {zoomLevel[0].toFixed(1)}x
+              <Slider
+                value={zoomLevel}
+                onValueChange={setZoomLevel}
+                min={0.1}
+                max={5}
+                step={0.1}
+                className={styles.zoomSlider}
+              />
+            </label>
+          </div>
+
+          <div className={styles.canvasContainer}>
+            <div className={styles.canvasStack}>
+              <canvas
+                ref={canvasRef}
+                className={styles.canvas}
+                width={800}
+                height={400}
+                onMouseMove={handleCanvasMouseMove}
+                onMouseLeave={() => setHoverTheta(null)}
+              />
+              <canvas
+                ref={overlayCanvasRef}
+                className={cn(styles.canvas, styles.overlayCanvas)}
+                width={800}
+                height={400}
+              />
+            </div>
+            <SizeStatisticsPanel
+              bins={sizeBins}
+              basis={sizeBasis}
+              density={sampleDensity}
+              weighting={statisticsWeighting}
+              onWeightingChange={setStatisticsWeighting}
+              exportName="laser-diffraction-distribution"
+            />
+          </div>
+
+          {modelView === 'compare' && (
+            <p className={styles.note}>
+              {divergenceAngle === null
+                ? 'Fraunhofer and Mie ring envelopes agree within 25% across the visible pattern.'
+                : `Ring envelopes diverge by more than 25% beyond θ ≈ ${(divergenceAngle * 180 / Math.PI).toFixed(2)}° (dashed circle).`}
+            </p>
+          )}
+
+          {radialProfile && (
+            <RadialProfileChart
+              profile={radialProfile}
+              showComponents={sampleMode === 'mixture' && showContributions}
+              hoverTheta={hoverTheta}
+              onHoverTheta={setHoverTheta}
+            />
+          )}
+
+          {polarizationProfile && <PolarizationChart profile={polarizationProfile} />}
+
+          {sampleMode === 'mixture' && (
+            <label className={styles.switchLabel}>
+              <Switch checked={showContributions} onCheckedChange={setShowContributions} />
+              Show component contributions
+            </label>
+          )}
+
+          <DetectorArrayPanel
+            array={detectorArray}
+            onChange={setDetectorArray}
+            enabled={showDetectors}
+            onEnabledChange={setShowDetectors}
+            rings={detectorRings}
+            signals={detectorReadings}
+            statistics={sampleStatistics}
           />
-        </label>
-      </div>
-
-      <div className={styles.canvasContainer}>
-        <canvas
-          ref={canvasRef}
-          className={styles.canvas}
-          width={800}
-          height={400}
-        />
-      </div>
-      
-      <div className={styles.screenshotControls}>
-        <Button 
-          onClick={takeScreenshot} 
-          variant="outline" 
-          className={styles.screenshotButton}
-        >
-          <Camera className={styles.icon} />
-          Capture Screenshot
-        </Button>
-        
-        {/* Hidden canvas for screenshot */}
-        <canvas
-          ref={screenshotCanvasRef}
-          style={{ display: 'none' }}
-          width={800}
-          height={500}
-        />
-      </div>
+
+          <GeometrySchematic geometry={geometry} />
+
+          <InversionPanel
+            simulated={radialProfile}
+            detectors={detectorReadings && detectorProfile(detectorRings, detectorReadings, geometry, detectorLength, refractiveMedium)}
+            model={fitModel}
+            params={inversionParams}
+            density={sampleDensity}
+          />
+
+          <div className={styles.screenshotControls}>
+            <Button 
+              onClick={takeScreenshot} 
+              variant="outline" 
+              className={styles.screenshotButton}
+            >
+              <Camera className={styles.icon} />
+              Capture Screenshot
+            </Button>
+
+            {/* Hidden canvas for screenshot */}
+            <canvas
+              ref={screenshotCanvasRef}
+              style={{ display: 'none' }}
+              width={800}
+              height={500}
+            />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="analyze">
+          <AnalyzePanel
+            wavelength={wavelength}
+            distance={distance}
+            model={fitModel}
+            particleIndex={particleIndex}
+            mediumIndex={refractiveMedium}
+            simulatedFrame={simulatedFrame}
+          />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
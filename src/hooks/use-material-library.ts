@@ -0,0 +1,70 @@
+import * as React from "react"
+
+import {
+  Material,
+  builtInMaterials,
+  createMaterialId,
+  isBuiltInMaterial,
+  loadUserMaterials,
+  materialSchema,
+  saveUserMaterials,
+} from "@/lib/optics/materials"
+
+// Built-in materials plus the user's own, persisted in localStorage.
+// Built-ins are read-only; clone one to edit it. A failed save keeps the
+// edits for this session and reports why in `storageError`.
+export function useMaterialLibrary() {
+  const [userMaterials, setUserMaterials] = React.useState<Material[]>(loadUserMaterials)
+  const [storageError, setStorageError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    try {
+      saveUserMaterials(userMaterials)
+      setStorageError(null)
+    } catch (error) {
+      setStorageError(
+        `Could not save the material library: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }, [userMaterials])
+
+  const materials = React.useMemo(
+    () => [...builtInMaterials, ...userMaterials],
+    [userMaterials]
+  )
+
+  // Adds a new user material or replaces the one with the same id
+  const saveMaterial = React.useCallback((material: Material) => {
+    if (isBuiltInMaterial(material.id)) {
+      throw new Error(`Built-in material "${material.id}" cannot be modified`)
+    }
+    const validated = materialSchema.parse(material)
+    setUserMaterials((current) =>
+      current.some((m) => m.id === validated.id)
+        ? current.map((m) => (m.id === validated.id ? validated : m))
+        : [...current, validated]
+    )
+  }, [])
+
+  const cloneMaterial = React.useCallback(
+    (id: string) => {
+      const source = materials.find((m) => m.id === id)
+      if (!source) return null
+
+      const copy: Material = {
+        ...structuredClone(source),
+        id: createMaterialId(),
+        name: `${source.name} (copy)`.slice(0, 60),
+      }
+      setUserMaterials((current) => [...current, copy])
+      return copy
+    },
+    [materials]
+  )
+
+  const deleteMaterial = React.useCallback((id: string) => {
+    setUserMaterials((current) => current.filter((m) => m.id !== id))
+  }, [])
+
+  return { materials, saveMaterial, cloneMaterial, deleteMaterial, storageError }
+}
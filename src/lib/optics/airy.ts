@@ -0,0 +1,73 @@
+import { besselJ1, besselZero } from './bessel';
+
+// Fraunhofer diffraction by a circular obstacle (Babinet's principle gives the
+// same pattern as a circular aperture away from the undiffracted beam):
+//   I(θ) / I(0) = [2·J1(x) / x]²,  x = π·d·sin θ / λ
+
+export interface AiryRing {
+  order: number;
+  // Dimensionless argument x = π·d·sin θ / λ
+  x: number;
+  sinTheta: number;
+  // Scattering angle in radians
+  theta: number;
+  // I(θ) / I(0)
+  relativeIntensity: number;
+}
+
+export interface AiryPattern {
+  minima: AiryRing[];
+  maxima: AiryRing[];
+}
+
+export const airyIntensity = (x: number): number => {
+  if (Math.abs(x) < 1e-8) return 1;
+  const amplitude = (2 * besselJ1(x)) / x;
+  return amplitude * amplitude;
+};
+
+export const airyArgument = (theta: number, wavelength: number, particleSize: number): number =>
+  (Math.PI * particleSize * Math.sin(theta)) / wavelength;
+
+// Relative intensity at scattering angle θ (radians); wavelength and particle
+// size in the same length unit
+export const airyIntensityAt = (theta: number, wavelength: number, particleSize: number): number =>
+  airyIntensity(airyArgument(theta, wavelength, particleSize));
+
+const toRing = (order: number, x: number, wavelength: number, particleSize: number): AiryRing | null => {
+  const sinTheta = (x * wavelength) / (Math.PI * particleSize);
+  // Rings beyond 90° never reach the screen
+  if (sinTheta >= 1) return null;
+
+  return {
+    order,
+    x,
+    sinTheta,
+    theta: Math.asin(sinTheta),
+    relativeIntensity: airyIntensity(x),
+  };
+};
+
+// Dark rings sit at the zeros of J1 (x = 3.832, 7.016, 10.173, …; the first
+// one is the familiar sin θ = 1.22·λ/d). Bright rings sit at the zeros of J2,
+// where d/dx[J1(x)/x] = −J2(x)/x vanishes (x = 5.136, 8.417, 11.620, …).
+export const computeAiryPattern = (
+  wavelength: number,
+  particleSize: number,
+  maxOrder: number = 10
+): AiryPattern => {
+  const minima: AiryRing[] = [];
+  const maxima: AiryRing[] = [];
+
+  if (!(wavelength > 0) || !(particleSize > 0)) return { minima, maxima };
+
+  for (let m = 1; m <= maxOrder; m++) {
+    const minimum = toRing(m, besselZero(1, m), wavelength, particleSize);
+    if (minimum) minima.push(minimum);
+
+    const maximum = toRing(m, besselZero(2, m), wavelength, particleSize);
+    if (maximum) maxima.push(maximum);
+  }
+
+  return { minima, maxima };
+};
@@ -0,0 +1,224 @@
+import { besselZero } from './bessel';
+import { ScatteringModel, ScatteringParams, createIntensityProfile } from './models';
+import { findExtrema } from './profile';
+
+// Inverse analysis of photographed ring patterns: locate the pattern center,
+// average the image azimuthally and fit a particle size to the dark rings.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  // Luminance per pixel, 0–255
+  data: Float32Array;
+}
+
+export interface SizeFit {
+  // Best-fit diameter and its 95% confidence interval (µm); the interval is
+  // null when fewer than two rings were used
+  diameter: number;
+  lower: number | null;
+  upper: number | null;
+  // Measured and fitted dark-ring angles (radians), in ring order
+  measuredAngles: number[];
+  fittedAngles: number[];
+  // Position of each used angle in the input, which may skip angles outside
+  // (0, 90°)
+  measuredIndices: number[];
+  // Ring order of the first measured minimum
+  firstOrder: number;
+}
+
+// Rec. 709 luma from an RGBA image
+export const toGrayImage = (image: ImageData): GrayImage => {
+  const { width, height, data } = image;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2];
+  }
+  return { width, height, data: gray };
+};
+
+// Share of pixels treated as the undiffracted central spot
+const CENTER_FRACTION = 0.005;
+
+// Centroid of the brightest pixels. The central spot is usually saturated,
+// so its center of mass is a robust estimate of the pattern center.
+export const detectPatternCenter = ({ width, height, data }: GrayImage): Point => {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < data.length; i++) histogram[Math.min(255, Math.floor(data[i]))]++;
+
+  let threshold = 255;
+  let count = histogram[255];
+  while (threshold > 0 && count < data.length * CENTER_FRACTION) {
+    threshold--;
+    count += histogram[threshold];
+  }
+
+  let sumX = 0;
+  let sumY = 0;
+  let sumWeight = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = data[y * width + x];
+      if (value >= threshold) {
+        sumX += x * value;
+        sumY += y * value;
+        sumWeight += value;
+      }
+    }
+  }
+
+  return sumWeight > 0
+    ? { x: sumX / sumWeight, y: sumY / sumWeight }
+    : { x: width / 2, y: height / 2 };
+};
+
+// Mean brightness in one-pixel-wide rings around the center, out to the
+// largest radius that still fits inside the image
+export const azimuthalProfile = ({ width, height, data }: GrayImage, center: Point): number[] => {
+  const maxRadius = Math.floor(Math.min(center.x, center.y, width - center.x, height - center.y));
+  if (maxRadius < 2) return [];
+
+  const sums = new Float64Array(maxRadius + 1);
+  const counts = new Uint32Array(maxRadius + 1);
+  for (let y = 0; y < height; y++) {
+    const dy = y - center.y;
+    for (let x = 0; x < width; x++) {
+      const r = Math.round(Math.hypot(x - center.x, dy));
+      if (r <= maxRadius) {
+        sums[r] += data[y * width + x];
+        counts[r]++;
+      }
+    }
+  }
+
+  return Array.from(sums, (sum, r) => (counts[r] > 0 ? sum / counts[r] : 0));
+};
+
+// Vertex of the parabola through three neighbouring samples, for sub-sample
+// positions of extrema
+const refineExtremum = (values: number[], i: number): number => {
+  if (i <= 0 || i >= values.length - 1) return i;
+  const denominator = values[i - 1] - 2 * values[i] + values[i + 1];
+  return denominator === 0 ? i : i + (0.5 * (values[i - 1] - values[i + 1])) / denominator;
+};
+
+// Ring contrast below this share of the profile's range is treated as noise
+const RING_CONTRAST = 0.03;
+
+// Radii (pixels) of the dark rings in an azimuthal profile. The profile is
+// smoothed over three pixels first so that sensor noise does not split rings.
+export const findRingMinima = (profile: number[], minRadius: number = 3): number[] => {
+  const smoothed = profile.map((_, i) => {
+    const window = profile.slice(Math.max(0, i - 1), i + 2);
+    return window.reduce((sum, v) => sum + v, 0) / window.length;
+  });
+  const range = Math.max(...smoothed) - Math.min(...smoothed);
+
+  return findExtrema(smoothed, 0.02, RING_CONTRAST * range).minima
+    .filter((i) => i >= minRadius)
+    .map((i) => refineExtremum(smoothed, i));
+};
+
+// Dark-ring angles predicted by a model, found numerically so that Mie
+// patterns are handled the same way as Airy ones
+export const modelRingMinima = (
+  model: ScatteringModel,
+  params: ScatteringParams,
+  thetaMax: number,
+  samples: number = 800
+): number[] => {
+  const profile = createIntensityProfile(model, params);
+  const step = thetaMax / samples;
+  const values = Array.from({ length: samples + 1 }, (_, i) => profile(i * step));
+  return findExtrema(values).minima.map((i) => refineExtremum(values, i) * step);
+};
+
+// Two-sided 95% Student t quantiles for 1–30 degrees of freedom
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+const tQuantile95 = (dof: number) => T_95[dof - 1] ?? 1.96;
+
+const FIT_GRID_POINTS = 161;
+
+// Fit a particle diameter to measured dark-ring angles (radians, in ring order
+// starting at `firstOrder`) by least squares on the ring angles predicted by
+// the same model the simulator renders. The 95% interval is the set of
+// diameters whose residual sum stays below S_min·(1 + t²/(n − 1)).
+export const fitParticleSize = (
+  measuredAngles: number[],
+  model: ScatteringModel,
+  params: ScatteringParams,
+  firstOrder: number = 1
+): SizeFit | null => {
+  const measuredIndices = measuredAngles.flatMap((theta, i) => (theta > 0 && theta < Math.PI / 2 ? [i] : []));
+  const angles = measuredIndices.map((i) => measuredAngles[i]);
+  if (angles.length === 0) return null;
+
+  const wavelengthInMedium = params.wavelength / params.mediumIndex;
+
+  // Starting guess from the Airy minima, sin θ_k = x_k·λ / (π·d)
+  const guesses = angles.map((theta, k) =>
+    (besselZero(1, firstOrder + k) * wavelengthInMedium) / (Math.PI * Math.sin(theta)));
+  const guess = guesses.reduce((sum, d) => sum + d, 0) / guesses.length;
+
+  const thetaMax = Math.min(Math.PI / 2, angles[angles.length - 1] * 1.5);
+  const residual = (diameter: number): number => {
+    const predicted = modelRingMinima(model, { ...params, particleSize: diameter }, thetaMax);
+    let sum = 0;
+    for (let k = 0; k < angles.length; k++) {
+      const theta = predicted[firstOrder - 1 + k];
+      if (theta === undefined) return Infinity;
+      sum += (theta - angles[k]) * (theta - angles[k]);
+    }
+    return sum;
+  };
+
+  // Log-spaced grid over ±50% of the guess
+  const logLow = Math.log(guess / 1.5);
+  const logStep = (Math.log(guess * 1.5) - logLow) / (FIT_GRID_POINTS - 1);
+  const diameters = Array.from({ length: FIT_GRID_POINTS }, (_, i) => Math.exp(logLow + i * logStep));
+  const residuals = diameters.map(residual);
+
+  let best = 0;
+  for (let i = 1; i < residuals.length; i++) {
+    if (residuals[i] < residuals[best]) best = i;
+  }
+  if (!Number.isFinite(residuals[best])) return null;
+
+  const diameter = Math.exp(logLow + refineExtremum(residuals, best) * logStep);
+
+  let lower: number | null = null;
+  let upper: number | null = null;
+  if (angles.length >= 2) {
+    const t = tQuantile95(angles.length - 1);
+    const limit = residuals[best] * (1 + (t * t) / (angles.length - 1));
+    let low = best;
+    while (low > 0 && residuals[low - 1] <= limit) low--;
+    let high = best;
+    while (high < residuals.length - 1 && residuals[high + 1] <= limit) high++;
+    // Never report an interval narrower than the grid resolution
+    lower = Math.min(diameters[Math.max(0, low - 1)], diameter);
+    upper = Math.max(diameters[Math.min(residuals.length - 1, high + 1)], diameter);
+  }
+
+  return {
+    diameter: diameter * 1e6,
+    lower: lower === null ? null : lower * 1e6,
+    upper: upper === null ? null : upper * 1e6,
+    measuredAngles: angles,
+    fittedAngles: modelRingMinima(model, { ...params, particleSize: diameter }, thetaMax)
+      .slice(firstOrder - 1, firstOrder - 1 + angles.length),
+    measuredIndices,
+    firstOrder,
+  };
+};
@@ -0,0 +1,167 @@
+import { SizeBins } from './distribution';
+import { DetectorGeometry, angleToRadius } from './geometry';
+import { IntensityProfile } from './models';
+
+// Finite Gaussian illumination. A real laser beam has a waist w0 and a
+// far-field half-angle divergence θ_b = M²·λ / (π·w0), so
+//  - the part of the beam that passes the particles unscattered lands on the
+//    detector as a bright spot, orders of magnitude above the diffraction
+//    peak, which is why instruments block the center with a beam stop, and
+//  - every ring is smeared over the beam's spread of incidence angles.
+
+export interface BeamSettings {
+  enabled: boolean;
+  // 1/e² intensity diameter at the waist, which sits at the sample (mm)
+  waistDiameter: number;
+  // Beam quality factor; 1 for an ideal TEM00 beam
+  mSquared: number;
+  // Opaque disc in front of the detector (mm); 0 for none
+  stopDiameter: number;
+}
+
+export const defaultBeamSettings: BeamSettings = {
+  enabled: false,
+  waistDiameter: 1,
+  mSquared: 1,
+  stopDiameter: 0,
+};
+
+// Far-field 1/e² half-angle divergence (rad); wavelength in m
+export const beamDivergence = (beam: BeamSettings, wavelength: number): number =>
+  (beam.mSquared * wavelength) / (Math.PI * (beam.waistDiameter * 1e-3) / 2);
+
+// M² that gives the requested divergence (rad) at the current waist; never
+// below the diffraction limit of 1
+export const mSquaredForDivergence = (beam: BeamSettings, wavelength: number, divergence: number): number =>
+  Math.max(1, (divergence * Math.PI * (beam.waistDiameter * 1e-3) / 2) / wavelength);
+
+// 1/e² radius (m) of the undiffracted beam on the detector. Behind a lens the
+// beam focuses to f·θ_b; on a screen it has propagated `length` from the waist.
+export const beamSpotRadius = (
+  beam: BeamSettings,
+  wavelength: number,
+  geometry: DetectorGeometry,
+  length: number
+): number => {
+  const waist = (beam.waistDiameter * 1e-3) / 2;
+  const divergence = beamDivergence(beam, wavelength);
+  if (geometry === 'lens') return length * divergence;
+  const rayleighRange = waist / divergence;
+  return waist * Math.sqrt(1 + (length / rayleighRange) ** 2);
+};
+
+// Peak of the undiffracted beam relative to the forward diffraction peak of
+// `particleCount` particles of diameter `particleSize` (m). The beam carries
+// I0·π·w0²/2 spread over π·w²/2 on the detector; one particle sends
+// I0·A² / (λ·L)² into the forward direction (A its projected area).
+export const undiffractedPeak = (
+  beam: BeamSettings,
+  wavelength: number,
+  particleSize: number,
+  particleCount: number,
+  geometry: DetectorGeometry,
+  length: number
+): number => {
+  const waist = (beam.waistDiameter * 1e-3) / 2;
+  const spot = beamSpotRadius(beam, wavelength, geometry, length);
+  const area = (Math.PI * particleSize * particleSize) / 4;
+  const forward = (particleCount * area * area) / (wavelength * wavelength * length * length);
+  return forward > 0 ? (waist * waist) / (spot * spot) / forward : 0;
+};
+
+// Diameter (m) whose forward intensity is the mean of number-weighted bins
+// (µm); the forward peak scales with area², i.e. d⁴
+export const forwardEquivalentSize = (numberBins: SizeBins): number =>
+  Math.pow(numberBins.sizes.reduce((sum, d, i) => sum + numberBins.weights[i] * d ** 4, 0), 1 / 4) * 1e-6;
+
+export interface Illumination {
+  // Diffraction profile smeared over the beam divergence
+  smooth: (profile: IntensityProfile) => IntensityProfile;
+  // Detected intensity at θ: diffracted light plus the undiffracted beam,
+  // zero behind the beam stop
+  detect: (intensity: number, theta: number) => number;
+  // Undiffracted peak relative to the diffraction peak
+  peak: number;
+  // Undiffracted spot and beam stop radii on the detector (m)
+  spotRadius: number;
+  stopRadius: number;
+}
+
+// Radial and azimuthal samples of the divergence kernel
+const KERNEL_RADII = 6;
+const KERNEL_ANGLES = 12;
+// Samples of the smoothed profile, interpolated in between
+const SMOOTH_SAMPLES = 1024;
+
+const planeWave: Illumination = {
+  smooth: (profile) => profile,
+  detect: (intensity) => intensity,
+  peak: 0,
+  spotRadius: 0,
+  stopRadius: 0,
+};
+
+// Illumination for a detector of the given geometry; thetaMax bounds the
+// smoothed profile table. Angles are inside the suspending medium and the
+// wavelength is the wavelength there.
+export const createIllumination = (
+  beam: BeamSettings,
+  wavelength: number,
+  particleSize: number,
+  particleCount: number,
+  geometry: DetectorGeometry,
+  length: number,
+  thetaMax: number,
+  mediumIndex = 1
+): Illumination => {
+  if (!beam.enabled || !(beam.waistDiameter > 0) || !(length > 0)) return planeWave;
+
+  // Outside the cell both the beam's divergence and the diffraction angles
+  // grow by n, so the spot and the peak ratio follow the vacuum wavelength
+  const divergence = beamDivergence(beam, wavelength);
+  const airWavelength = wavelength * mediumIndex;
+  const peak = undiffractedPeak(beam, airWavelength, particleSize, particleCount, geometry, length);
+  const spotRadius = beamSpotRadius(beam, airWavelength, geometry, length);
+  const stopRadius = Math.max(0, beam.stopDiameter) * 1e-3 / 2;
+
+  // Gaussian of 1/e² half-width θ_b in incidence angle, sampled at the
+  // midpoints of equal-weight rings
+  const sigma = divergence / 2;
+  const kernel = Array.from({ length: KERNEL_RADII }, (_, i) =>
+    sigma * Math.sqrt(-2 * Math.log(1 - (i + 0.5) / KERNEL_RADII))
+  );
+
+  const smooth = (profile: IntensityProfile): IntensityProfile => {
+    // Rings far wider than the divergence are unaffected
+    if (!(thetaMax > 0) || divergence < thetaMax / SMOOTH_SAMPLES) return profile;
+
+    const step = thetaMax / (SMOOTH_SAMPLES - 1);
+    const table = Float64Array.from({ length: SMOOTH_SAMPLES }, (_, i) => {
+      const theta = i * step;
+      let sum = 0;
+      for (const offset of kernel) {
+        for (let j = 0; j < KERNEL_ANGLES; j++) {
+          const psi = (2 * Math.PI * j) / KERNEL_ANGLES;
+          sum += profile(Math.hypot(theta + offset * Math.cos(psi), offset * Math.sin(psi)));
+        }
+      }
+      return sum / (KERNEL_RADII * KERNEL_ANGLES);
+    });
+
+    return (theta) => {
+      const position = theta / step;
+      const index = Math.floor(position);
+      if (index >= SMOOTH_SAMPLES - 1) return profile(theta);
+      const fraction = position - index;
+      return table[index] * (1 - fraction) + table[index + 1] * fraction;
+    };
+  };
+
+  const detect = (intensity: number, theta: number): number => {
+    const radius = angleToRadius(geometry, length, theta, mediumIndex);
+    if (radius < stopRadius) return 0;
+    return intensity + peak * Math.exp((-2 * radius * radius) / (spotRadius * spotRadius));
+  };
+
+  return { smooth, detect, peak, spotRadius, stopRadius };
+};
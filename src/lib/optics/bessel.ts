@@ -0,0 +1,71 @@
+// Bessel functions of the first kind for the diffraction models.
+// Rational/polynomial approximations from Abramowitz & Stegun 9.4.1–9.4.6
+// (as tabulated in Numerical Recipes), accurate to roughly 1e-8.
+
+export const besselJ0 = (x: number): number => {
+  const ax = Math.abs(x);
+
+  if (ax < 8) {
+    const y = x * x;
+    const num = 57568490574.0 + y * (-13362590354.0 + y * (651619640.7
+      + y * (-11214424.18 + y * (77392.33017 + y * -184.9052456))));
+    const den = 57568490411.0 + y * (1029532985.0 + y * (9494680.718
+      + y * (59272.64853 + y * (267.8532712 + y))));
+    return num / den;
+  }
+
+  const z = 8 / ax;
+  const y = z * z;
+  const xx = ax - 0.785398164;
+  const p = 1 + y * (-0.1098628627e-2 + y * (0.2734510407e-4
+    + y * (-0.2073370639e-5 + y * 0.2093887211e-6)));
+  const q = -0.1562499995e-1 + y * (0.1430488765e-3
+    + y * (-0.6911147651e-5 + y * (0.7621095161e-6 - y * 0.934935152e-7)));
+  return Math.sqrt(0.636619772 / ax) * (Math.cos(xx) * p - z * Math.sin(xx) * q);
+};
+
+export const besselJ1 = (x: number): number => {
+  const ax = Math.abs(x);
+
+  if (ax < 8) {
+    const y = x * x;
+    const num = x * (72362614232.0 + y * (-7895059235.0 + y * (242396853.1
+      + y * (-2972611.439 + y * (15704.48260 + y * -30.16036606)))));
+    const den = 144725228442.0 + y * (2300535178.0 + y * (18583304.74
+      + y * (99447.43394 + y * (376.9991397 + y))));
+    return num / den;
+  }
+
+  const z = 8 / ax;
+  const y = z * z;
+  const xx = ax - 2.356194491;
+  const p = 1 + y * (0.183105e-2 + y * (-0.3516396496e-4
+    + y * (0.2457520174e-5 + y * -0.240337019e-6)));
+  const q = 0.04687499995 + y * (-0.2002690873e-3
+    + y * (0.8449199096e-5 + y * (-0.88228987e-6 + y * 0.105787412e-6)));
+  const ans = Math.sqrt(0.636619772 / ax) * (Math.cos(xx) * p - z * Math.sin(xx) * q);
+  return x < 0 ? -ans : ans;
+};
+
+// J2 from the recurrence J_{n+1}(x) = (2n/x)·J_n(x) − J_{n−1}(x)
+export const besselJ2 = (x: number): number => {
+  if (x === 0) return 0;
+  return (2 / x) * besselJ1(x) - besselJ0(x);
+};
+
+// m-th positive zero (m ≥ 1) of J1 or J2, refined with Newton's method from
+// McMahon's asymptotic estimate β = (m + ν/2 − 1/4)·π
+export const besselZero = (order: 1 | 2, m: number): number => {
+  let x = (m + order / 2 - 0.25) * Math.PI;
+
+  for (let i = 0; i < 50; i++) {
+    const f = order === 1 ? besselJ1(x) : besselJ2(x);
+    // J_ν'(x) = J_{ν−1}(x) − (ν/x)·J_ν(x)
+    const df = (order === 1 ? besselJ0(x) : besselJ1(x)) - (order / x) * f;
+    const step = f / df;
+    x -= step;
+    if (Math.abs(step) < 1e-12) break;
+  }
+
+  return x;
+};
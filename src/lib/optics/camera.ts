@@ -0,0 +1,118 @@
+import { RGB } from './color';
+import { DisplaySettings, mapIntensity } from './display';
+import { createRandom, gaussianRandom, poissonRandom } from './random';
+
+// Virtual monochrome camera between the ideal pattern and the screen. Each
+// pixel collects photoelectrons in proportion to the relative intensity
+// painted there, plus stray background light and dark current; the count is
+// Poisson distributed (shot noise), read noise adds in the readout, the well
+// clips at its capacity, and the gain and ADC turn electrons into digital
+// numbers of limited bit depth. The digital image is then shown through the
+// usual display mapping, relative to the ADC's full scale.
+
+export interface CameraSettings {
+  enabled: boolean;
+  // Exposure time (ms)
+  exposure: number;
+  // Photoelectrons per ms in a pixel at the forward diffraction peak
+  peakSignal: number;
+  // Stray background light (e⁻ per pixel per ms)
+  background: number;
+  // Dark current (e⁻ per pixel per s)
+  darkCurrent: number;
+  // Read noise (e⁻ RMS)
+  readNoise: number;
+  // Full-well capacity (e⁻)
+  fullWell: number;
+  // Conversion gain (digital numbers per e⁻)
+  gain: number;
+  bitDepth: number;
+  seed: number;
+}
+
+export const defaultCameraSettings: CameraSettings = {
+  enabled: false,
+  exposure: 10,
+  peakSignal: 2000,
+  background: 1,
+  darkCurrent: 50,
+  readNoise: 5,
+  fullWell: 20000,
+  gain: 0.2,
+  bitDepth: 12,
+  seed: 1,
+};
+
+export const MIN_BIT_DEPTH = 6;
+export const MAX_BIT_DEPTH = 16;
+
+// Largest digital number the ADC can output
+export const maxDigitalNumber = (settings: CameraSettings): number =>
+  2 ** Math.round(Math.min(MAX_BIT_DEPTH, Math.max(MIN_BIT_DEPTH, settings.bitDepth))) - 1;
+
+// Mean electrons in a pixel of the given relative intensity
+export const meanElectrons = (settings: CameraSettings, intensity: number): number => {
+  const exposure = Math.max(0, settings.exposure);
+  return (Math.max(0, intensity) * settings.peakSignal + settings.background) * exposure
+    + (settings.darkCurrent * exposure) / 1000;
+};
+
+// Electrons at which the output clips: the full well or the ADC's full scale,
+// whichever comes first
+export const saturationElectrons = (settings: CameraSettings): number =>
+  settings.gain > 0
+    ? Math.min(Math.max(0, settings.fullWell), maxDigitalNumber(settings) / settings.gain)
+    : Math.max(0, settings.fullWell);
+
+export interface CameraStatistics {
+  // Share of pixels at the maximum output
+  saturated: number;
+  // Relative intensity that saturates a pixel, and the one whose signal just
+  // equals the noise floor of background, dark current and read noise
+  saturationIntensity: number;
+  noiseIntensity: number;
+}
+
+export const cameraStatistics = (settings: CameraSettings, saturated = 0): CameraStatistics => {
+  const perUnit = settings.peakSignal * Math.max(0, settings.exposure);
+  const offset = meanElectrons(settings, 0);
+  const noise = Math.sqrt(offset + settings.readNoise ** 2);
+  return {
+    saturated,
+    saturationIntensity: perUnit > 0 ? Math.max(0, saturationElectrons(settings) - offset) / perUnit : Infinity,
+    noiseIntensity: perUnit > 0 ? noise / perUnit : Infinity,
+  };
+};
+
+// Replace the ideal pattern in `image` with the camera's noisy frame.
+// `intensities` holds the relative intensity of every pixel in row order and
+// `color` tints the monochrome frame.
+export const applyCamera = (
+  image: ImageData,
+  intensities: Float32Array,
+  settings: CameraSettings,
+  display: DisplaySettings,
+  color: RGB
+): CameraStatistics => {
+  const { width, height, data } = image;
+  const random = createRandom(settings.seed);
+  const maxDN = maxDigitalNumber(settings);
+  const fullWell = Math.max(0, settings.fullWell);
+  let saturated = 0;
+
+  for (let i = 0; i < width * height; i++) {
+    const shot = poissonRandom(random, meanElectrons(settings, intensities[i]));
+    const electrons = Math.min(fullWell, Math.max(0, shot + settings.readNoise * gaussianRandom(random)));
+    const dn = Math.min(maxDN, Math.max(0, Math.round(electrons * settings.gain)));
+    if (dn >= maxDN || electrons >= fullWell) saturated++;
+
+    const brightness = mapIntensity(dn / maxDN, display);
+    const offset = i * 4;
+    data[offset] = color[0] * brightness;
+    data[offset + 1] = color[1] * brightness;
+    data[offset + 2] = color[2] * brightness;
+    data[offset + 3] = 255;
+  }
+
+  return cameraStatistics(settings, saturated / (width * height));
+};
@@ -0,0 +1,201 @@
+import { Complex, cAbs2, cAdd, cCos, cDiv, cMul, cScale, cSin, cSub, complex } from './complex';
+import {
+  MieCoefficients,
+  computeMieCoefficients,
+  createMiePolarizedProfiles,
+  createMieProfile,
+  mieEfficiencies,
+  mieForwardIntensity,
+} from './mie';
+import { ScatteringParams, ScatteringResult } from './models';
+
+// Coated (core-shell) spheres: a core of one material inside a concentric
+// shell of another, e.g. silica with a polymer coating or an encapsulated
+// droplet. The field is expanded in each layer and matched at both
+// interfaces, following the BHCOAT algorithm of Bohren & Huffman, "Absorption
+// and Scattering of Light by Small Particles" (1983), Appendix B.
+
+export interface CoatedParticle {
+  // Core diameter and shell thickness (µm); the outer diameter is core + 2·shell
+  coreDiameter: number;
+  shellThickness: number;
+  coreIndex: { real: number; imag: number };
+  shellIndex: { real: number; imag: number };
+}
+
+// A silica core in a polystyrene shell
+export const defaultCoatedParticle: CoatedParticle = {
+  coreDiameter: 5,
+  shellThickness: 0.5,
+  coreIndex: { real: 1.457, imag: 0 },
+  shellIndex: { real: 1.59, imag: 0 },
+};
+
+export const coatedOuterDiameter = (particle: CoatedParticle): number =>
+  Math.max(0, particle.coreDiameter) + 2 * Math.max(0, particle.shellThickness);
+
+// Terms beyond which the shell's Bessel functions of the second kind are no
+// longer needed: their contribution has fallen below this relative size
+const NEGLIGIBLE = 1e-8;
+
+// Shells whose absorption attenuates the field by more than e^−this between
+// the surfaces hide the core entirely
+const OPAQUE_SHELL = 30;
+
+// Logarithmic derivatives D_0..D_nStop at z by downward recurrence. BHCOAT
+// runs this upward from cot z, which breaks down for absorbing layers.
+const logDerivatives = (z: Complex, nStop: number): Complex[] => {
+  const nMax = Math.round(Math.max(nStop, Math.hypot(z.re, z.im))) + 15;
+  const D: Complex[] = new Array(nMax + 1);
+  D[nMax] = complex(0);
+  for (let n = nMax; n >= 1; n--) {
+    const nOverZ = cDiv(complex(n), z);
+    D[n - 1] = cSub(nOverZ, cDiv(complex(1), cAdd(D[n], nOverZ)));
+  }
+  return D;
+};
+
+// Coefficients of a coated sphere with core and outer size parameters
+// xCore ≤ xShell; indices are relative to the medium
+export const computeCoatedMieCoefficients = (
+  xCore: number,
+  xShell: number,
+  coreIndex: Complex,
+  shellIndex: Complex
+): MieCoefficients => {
+  // Degenerate layers reduce to a homogeneous sphere
+  if (!(xCore > 0)) return computeMieCoefficients(xShell, shellIndex);
+  if (!(xShell > xCore)) return computeMieCoefficients(xCore, coreIndex);
+  if (shellIndex.im * (xShell - xCore) > OPAQUE_SHELL) return computeMieCoefficients(xShell, shellIndex);
+
+  const x1 = cScale(coreIndex, xCore);
+  const x2 = cScale(shellIndex, xCore);
+  const y2 = cScale(shellIndex, xShell);
+  const relativeIndex = cDiv(shellIndex, coreIndex);
+  const y = xShell;
+  const nStop = Math.round(y + 4 * Math.cbrt(y) + 1);
+
+  const dx1 = logDerivatives(x1, nStop);
+  const dx2 = logDerivatives(x2, nStop);
+  const dy2 = logDerivatives(y2, nStop);
+
+  // Riccati–Bessel functions in the medium and χ_n inside the shell
+  let psi0y = Math.cos(y);
+  let psi1y = Math.sin(y);
+  let chi0y = -Math.sin(y);
+  let chi1y = Math.cos(y);
+  let xi1y = complex(psi1y, -chi1y);
+  let chi0y2 = cScale(cSin(y2), -1);
+  let chi1y2 = cCos(y2);
+  let chi0x2 = cScale(cSin(x2), -1);
+  let chi1x2 = cCos(x2);
+
+  // Shell terms of the interface conditions; dropped once negligible
+  let brack = complex(0);
+  let crack = complex(0);
+  let shellConverged = false;
+
+  const a: Complex[] = [];
+  const b: Complex[] = [];
+  const one = complex(1);
+
+  for (let n = 1; n <= nStop; n++) {
+    const psiy = ((2 * n - 1) * psi1y) / y - psi0y;
+    const chiy = ((2 * n - 1) * chi1y) / y - chi0y;
+    const xiy = complex(psiy, -chiy);
+    const nOverY2 = cDiv(complex(n), y2);
+    const d1y2 = dy2[n];
+
+    let chipy2 = complex(0);
+    let chiy2 = complex(0);
+    if (!shellConverged) {
+      const nOverX2 = cDiv(complex(n), x2);
+      const d1x1 = dx1[n];
+      const d1x2 = dx2[n];
+      const chix2 = cSub(cScale(cDiv(chi1x2, x2), 2 * n - 1), chi0x2);
+      chiy2 = cSub(cScale(cDiv(chi1y2, y2), 2 * n - 1), chi0y2);
+      const chipx2 = cSub(chi1x2, cMul(nOverX2, chix2));
+      chipy2 = cSub(chi1y2, cMul(nOverY2, chiy2));
+
+      const shellTerm = cSub(cMul(chix2, d1x2), chipx2);
+      const ancap = cDiv(
+        cDiv(cSub(cMul(relativeIndex, d1x1), d1x2), cSub(cMul(cMul(relativeIndex, d1x1), chix2), chipx2)),
+        shellTerm
+      );
+      const bncap = cDiv(
+        cDiv(cSub(cMul(relativeIndex, d1x2), d1x1), cSub(cMul(relativeIndex, chipx2), cMul(d1x1, chix2))),
+        shellTerm
+      );
+      const outerTerm = cSub(cMul(chiy2, d1y2), chipy2);
+      brack = cMul(ancap, outerTerm);
+      crack = cMul(bncap, outerTerm);
+
+      const limit = NEGLIGIBLE * NEGLIGIBLE * cAbs2(d1y2);
+      if ([cMul(brack, chipy2), cMul(brack, chiy2), cMul(crack, chipy2), cMul(crack, chiy2)]
+        .every((term) => cAbs2(term) < limit)) {
+        brack = complex(0);
+        crack = complex(0);
+        shellConverged = true;
+      }
+
+      chi0x2 = chi1x2;
+      chi1x2 = chix2;
+      chi0y2 = chi1y2;
+      chi1y2 = chiy2;
+    }
+
+    const dnbar = cDiv(cSub(d1y2, cMul(brack, chipy2)), cSub(one, cMul(brack, chiy2)));
+    const gnbar = cDiv(cSub(d1y2, cMul(crack, chipy2)), cSub(one, cMul(crack, chiy2)));
+    const nOverY = complex(n / y);
+
+    const da = cAdd(cDiv(dnbar, shellIndex), nOverY);
+    a.push(cDiv(cSub(cScale(da, psiy), complex(psi1y)), cSub(cMul(da, xiy), xi1y)));
+
+    const db = cAdd(cMul(shellIndex, gnbar), nOverY);
+    b.push(cDiv(cSub(cScale(db, psiy), complex(psi1y)), cSub(cMul(db, xiy), xi1y)));
+
+    psi0y = psi1y;
+    psi1y = psiy;
+    chi0y = chi1y;
+    chi1y = chiy;
+    xi1y = complex(psi1y, -chi1y);
+  }
+
+  return { x: xShell, a, b };
+};
+
+// Coefficients of the coated particle; `params` supplies the wavelength and
+// medium, its particle size and index are ignored. Null without a particle.
+const coatedCoefficients = (particle: CoatedParticle, params: ScatteringParams): MieCoefficients | null => {
+  const wavelengthInMedium = params.wavelength / params.mediumIndex;
+  const outer = coatedOuterDiameter(particle) * 1e-6;
+  if (!(wavelengthInMedium > 0) || !(outer > 0)) return null;
+
+  const relative = ({ real, imag }: CoatedParticle['coreIndex']) =>
+    complex(real / params.mediumIndex, (imag || 0) / params.mediumIndex);
+  return computeCoatedMieCoefficients(
+    (Math.PI * Math.max(0, particle.coreDiameter) * 1e-6) / wavelengthInMedium,
+    (Math.PI * outer) / wavelengthInMedium,
+    relative(particle.coreIndex),
+    relative(particle.shellIndex)
+  );
+};
+
+export const coatedExtinctionEfficiency = (particle: CoatedParticle, params: ScatteringParams): number => {
+  const coefficients = coatedCoefficients(particle, params);
+  return coefficients ? mieEfficiencies(coefficients).extinction : 0;
+};
+
+// Mie scattering of the coated particle
+export const computeCoatedScattering = (particle: CoatedParticle, params: ScatteringParams): ScatteringResult => {
+  const coefficients = coatedCoefficients(particle, params);
+  if (!coefficients) {
+    return { profile: () => 0, polarized: { perpendicular: () => 0, parallel: () => 0 }, forwardIntensity: 0 };
+  }
+
+  return {
+    profile: createMieProfile(coefficients),
+    polarized: createMiePolarizedProfiles(coefficients),
+    forwardIntensity: mieForwardIntensity(coefficients),
+  };
+};
@@ -0,0 +1,86 @@
+// Wavelength to display color via the CIE 1931 2° standard observer.
+
+export type RGB = [number, number, number];
+
+// CIE 1931 color matching functions x̄, ȳ, z̄ at 10 nm steps from 380 nm
+const CMF_START = 380;
+const CMF_STEP = 10;
+const CMF_TABLE: RGB[] = [
+  [0.001368, 0.000039, 0.006450], [0.004243, 0.000120, 0.020050],
+  [0.014310, 0.000396, 0.067850], [0.043510, 0.001210, 0.207400],
+  [0.134380, 0.004000, 0.645600], [0.283900, 0.011600, 1.385600],
+  [0.348280, 0.023000, 1.747060], [0.336200, 0.038000, 1.772110],
+  [0.290800, 0.060000, 1.669200], [0.195360, 0.090980, 1.287640],
+  [0.095640, 0.139020, 0.812950], [0.032010, 0.208020, 0.465180],
+  [0.004900, 0.323000, 0.272000], [0.009300, 0.503000, 0.158200],
+  [0.063270, 0.710000, 0.078250], [0.165500, 0.862000, 0.042160],
+  [0.290400, 0.954000, 0.020300], [0.433450, 0.994950, 0.008750],
+  [0.594500, 0.995000, 0.003900], [0.762100, 0.952000, 0.002100],
+  [0.916300, 0.870000, 0.001650], [1.026300, 0.757000, 0.001100],
+  [1.062200, 0.631000, 0.000800], [1.002600, 0.503000, 0.000340],
+  [0.854450, 0.381000, 0.000190], [0.642400, 0.265000, 0.000050],
+  [0.447900, 0.175000, 0.000020], [0.283500, 0.107000, 0.000000],
+  [0.164900, 0.061000, 0.000000], [0.087400, 0.032000, 0.000000],
+  [0.046770, 0.017000, 0.000000], [0.022700, 0.008210, 0.000000],
+  [0.011359, 0.004102, 0.000000], [0.005790, 0.002091, 0.000000],
+  [0.002899, 0.001047, 0.000000], [0.001440, 0.000520, 0.000000],
+  [0.000690, 0.000249, 0.000000], [0.000332, 0.000120, 0.000000],
+  [0.000166, 0.000060, 0.000000], [0.000083, 0.000030, 0.000000],
+  [0.000042, 0.000015, 0.000000],
+];
+
+// CIE XYZ tristimulus values of a unit-power monochromatic source (nm),
+// linearly interpolated between the tabulated color matching functions
+export const wavelengthToXYZ = (nm: number): RGB => {
+  const position = (nm - CMF_START) / CMF_STEP;
+  if (!(position >= 0 && position <= CMF_TABLE.length - 1)) return [0, 0, 0];
+
+  const index = Math.min(Math.floor(position), CMF_TABLE.length - 2);
+  const fraction = position - index;
+  const low = CMF_TABLE[index];
+  const high = CMF_TABLE[index + 1];
+  return low.map((value, i) => value + (high[i] - value) * fraction) as RGB;
+};
+
+// XYZ to linear sRGB (D65 white point)
+export const xyzToLinearRGB = ([x, y, z]: RGB): RGB => [
+  3.2406 * x - 1.5372 * y - 0.4986 * z,
+  -0.9689 * x + 1.8758 * y + 0.0415 * z,
+  0.0557 * x - 0.2040 * y + 1.0570 * z,
+];
+
+const encodeSRGB = (linear: number): number =>
+  linear <= 0.0031308 ? 12.92 * linear : 1.055 * Math.pow(linear, 1 / 2.4) - 0.055;
+
+// Spectral colors lie outside the sRGB gamut. Clip the negative channels
+// (desaturating toward white instead turns deep reds pink once gamma-encoded),
+// then scale so the brightest channel is at full output.
+export const gamutMapRGB = (rgb: RGB): RGB => {
+  const clipped = rgb.map((c) => Math.max(0, c)) as RGB;
+  const peak = Math.max(...clipped);
+  return peak > 0 ? (clipped.map((c) => c / peak) as RGB) : [0, 0, 0];
+};
+
+// Luminous efficiency ȳ(λ) below which a laser line starts to look dim. The
+// color fades linearly in ȳ below it, so 405 nm and 700 nm come out as the
+// dim violet and deep red they look like in person.
+const FADE_THRESHOLD = 0.01;
+
+// Gamma-encoded sRGB color (0–255 per channel) of a monochromatic source
+export const wavelengthToRGB = (nm: number): RGB => {
+  if (!Number.isFinite(nm)) return [0, 0, 0];
+
+  const xyz = wavelengthToXYZ(nm);
+  const linear = gamutMapRGB(xyzToLinearRGB(xyz));
+  const fade = Math.min(1, Math.max(0, xyz[1]) / FADE_THRESHOLD);
+
+  return linear.map((c) => Math.round(255 * encodeSRGB(c * fade))) as RGB;
+};
+
+// Gamma-encoded sRGB color (0–255 per channel) of a mixture of wavelengths
+// given as CIE XYZ, at full brightness; the luminance sets brightness separately
+export const xyzToRGB = (xyz: RGB): RGB =>
+  gamutMapRGB(xyzToLinearRGB(xyz)).map((c) => Math.round(255 * encodeSRGB(c))) as RGB;
+
+export const rgbToCss = ([r, g, b]: RGB, alpha: number = 1): string =>
+  `rgba(${r}, ${g}, ${b}, ${alpha})`;
@@ -0,0 +1,39 @@
+// Minimal complex arithmetic for the scattering solvers
+
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+export const complex = (re: number, im: number = 0): Complex => ({ re, im });
+
+export const cAdd = (a: Complex, b: Complex): Complex => ({ re: a.re + b.re, im: a.im + b.im });
+
+export const cSub = (a: Complex, b: Complex): Complex => ({ re: a.re - b.re, im: a.im - b.im });
+
+export const cMul = (a: Complex, b: Complex): Complex => ({
+  re: a.re * b.re - a.im * b.im,
+  im: a.re * b.im + a.im * b.re,
+});
+
+export const cDiv = (a: Complex, b: Complex): Complex => {
+  const denominator = b.re * b.re + b.im * b.im;
+  return {
+    re: (a.re * b.re + a.im * b.im) / denominator,
+    im: (a.im * b.re - a.re * b.im) / denominator,
+  };
+};
+
+export const cScale = (a: Complex, s: number): Complex => ({ re: a.re * s, im: a.im * s });
+
+export const cAbs2 = (a: Complex): number => a.re * a.re + a.im * a.im;
+
+export const cSin = (a: Complex): Complex => ({
+  re: Math.sin(a.re) * Math.cosh(a.im),
+  im: Math.cos(a.re) * Math.sinh(a.im),
+});
+
+export const cCos = (a: Complex): Complex => ({
+  re: Math.cos(a.re) * Math.cosh(a.im),
+  im: -Math.sin(a.re) * Math.sinh(a.im),
+});
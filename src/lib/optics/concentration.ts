@@ -0,0 +1,155 @@
+import { cScale } from './complex';
+import { SizeBins } from './distribution';
+import { fft2d } from './fft';
+import { computeMieCoefficients, mieEfficiencies } from './mie';
+import { IntensityProfile, ScatteringParams } from './models';
+
+// How much sample is in the beam. Particles at volume fraction φ in a cell of
+// path length L attenuate the laser by Beer–Lambert extinction,
+// I/I0 = exp(−τ) with optical depth τ = φ·L·(C_ext / V) averaged over the
+// distribution. The obscuration 1 − exp(−τ) is what instruments report;
+// ISO 13320 recommends roughly 5–20%. Below that the signal is weak, above it
+// light is scattered more than once on its way through the cell.
+
+export interface ConcentrationSettings {
+  enabled: boolean;
+  // Volume fraction of particles in the suspension (%)
+  volumeFraction: number;
+  // Optical path length through the sample cell (mm)
+  pathLength: number;
+}
+
+export const defaultConcentrationSettings: ConcentrationSettings = {
+  enabled: false,
+  volumeFraction: 0.005,
+  pathLength: 10,
+};
+
+// Obscuration band recommended for laser diffraction
+export const RECOMMENDED_OBSCURATION: [number, number] = [0.05, 0.2];
+
+// Mie extinction efficiency Q_ext for particle diameters in µm; the particle
+// size in `params` is ignored
+export const mieExtinctionEfficiency = (params: ScatteringParams) => {
+  const wavelengthInMedium = params.wavelength / params.mediumIndex;
+  const relativeIndex = cScale(params.particleIndex, 1 / params.mediumIndex);
+  return (size: number): number => {
+    const x = (Math.PI * size * 1e-6) / wavelengthInMedium;
+    return x > 0 ? mieEfficiencies(computeMieCoefficients(x, relativeIndex)).extinction : 0;
+  };
+};
+
+// Extinction cross-section per unit particle volume (1/µm) of number-weighted
+// bins (µm), given each size's extinction efficiency
+export const extinctionPerVolume = (numberBins: SizeBins, efficiency: (size: number) => number): number => {
+  let extinction = 0;
+  let volume = 0;
+  numberBins.sizes.forEach((d, i) => {
+    extinction += numberBins.weights[i] * efficiency(d) * (Math.PI / 4) * d * d;
+    volume += numberBins.weights[i] * (Math.PI / 6) * d * d * d;
+  });
+  return volume > 0 ? extinction / volume : 0;
+};
+
+export const opticalDepth = (settings: ConcentrationSettings, extinction: number): number =>
+  settings.enabled ? (Math.max(0, settings.volumeFraction) / 100) * Math.max(0, settings.pathLength) * 1e3 * extinction : 0;
+
+export const obscuration = (depth: number): number => 1 - Math.exp(-depth);
+
+// Share of the scattered light that was scattered exactly once. The number
+// of scattering events along the path is Poisson distributed with mean τ.
+export const singleScatteringShare = (depth: number): number =>
+  depth > 1e-9 ? (depth * Math.exp(-depth)) / -Math.expm1(-depth) : 1;
+
+// Grid for the multiple-scattering convolutions; the multiply scattered halo
+// is smooth, so a coarse grid serves
+const GRID_SIZE = 256;
+// The grid reaches this far beyond the largest angle of interest, so the
+// periodic convolution does not wrap light back onto it
+const GRID_MARGIN = 2;
+// Small-angle approximation: angles add as 2D vectors
+const MAX_GRID_ANGLE = 1;
+// Profile samples per grid step
+const TABLE_RESOLUTION = 4;
+
+// Detected profile of a sample of optical depth τ in the small-angle
+// approximation. Each extra scattering event convolves the angular
+// distribution with the single-scattering one, so with p̂ the Fourier
+// transform of the normalized single-scattering pattern the scattered light
+// is Σ_k P(k)·p̂^k = (exp(τ·p̂) − 1)·e^−τ / (1 − e^−τ). The result keeps the
+// units of `profile` and the total scattered power; the forward peak drops
+// and the rings fill in as light spreads to wider angles.
+export const applyMultipleScattering = (
+  profile: IntensityProfile,
+  depth: number,
+  thetaMax: number
+): { single: number; multiple: IntensityProfile } => {
+  const single = singleScatteringShare(depth);
+  if (single > 1 - 1e-6 || !(thetaMax > 0)) return { single: 1, multiple: () => 0 };
+
+  const n = GRID_SIZE;
+  const extent = Math.min(MAX_GRID_ANGLE, GRID_MARGIN * thetaMax);
+  const step = (2 * extent) / n;
+  const coordinate = (k: number) => (k < n / 2 ? k : k - n) * step;
+
+  // The profile may be expensive (Mie over a distribution), so it is
+  // tabulated by angle before filling the grid
+  const tableStep = step / TABLE_RESOLUTION;
+  const table = Float64Array.from(
+    { length: Math.ceil((Math.SQRT2 * extent) / tableStep) + 2 },
+    (_, i) => profile(i * tableStep)
+  );
+
+  // Single-scattering power per cell, centered at the origin with wrap-around
+  const re = new Float64Array(n * n);
+  const im = new Float64Array(n * n);
+  let power = 0;
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      const value = table[Math.round(Math.hypot(coordinate(col), coordinate(row)) / tableStep)];
+      re[row * n + col] = value;
+      power += value;
+    }
+  }
+  if (!(power > 0)) return { single: 1, multiple: () => 0 };
+
+  fft2d(re, im, n);
+
+  // Two or more events: exp(τ·p̂) − 1 − τ·p̂, weighted among scattered light
+  const weight = Math.exp(-depth) / -Math.expm1(-depth);
+  for (let i = 0; i < n * n; i++) {
+    const pRe = (depth * re[i]) / power;
+    const pIm = (depth * im[i]) / power;
+    const magnitude = Math.exp(pRe);
+    // Conjugated for the inverse transform below
+    re[i] = weight * (magnitude * Math.cos(pIm) - 1 - pRe);
+    im[i] = -weight * (magnitude * Math.sin(pIm) - pIm);
+  }
+  fft2d(re, im, n);
+
+  // Azimuthal average; the inverse transform carries a factor n², and the
+  // result is rescaled from a share of the power back to profile units
+  const bins = Math.ceil(n / 2);
+  const sums = new Float64Array(bins + 1);
+  const counts = new Float64Array(bins + 1);
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      const bin = Math.round(Math.hypot(coordinate(col), coordinate(row)) / step);
+      if (bin > bins) continue;
+      sums[bin] += re[row * n + col];
+      counts[bin]++;
+    }
+  }
+  const radial = Array.from(sums, (sum, i) => (counts[i] > 0 ? Math.max(0, (sum / counts[i]) * power) / (n * n) : 0));
+
+  return {
+    single,
+    multiple: (theta) => {
+      const position = theta / step;
+      const index = Math.floor(position);
+      if (index >= bins) return 0;
+      const fraction = position - index;
+      return radial[index] * (1 - fraction) + radial[index + 1] * fraction;
+    },
+  };
+};
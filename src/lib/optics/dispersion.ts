@@ -0,0 +1,141 @@
+import { z } from 'zod';
+
+// Wavelength-dependent refractive index. A material's fixed index holds for
+// red light only; across 400–700 nm glasses and polymers change n by about
+// 0.01–0.03, which visibly shifts Mie ripples and, for broadband sources,
+// the colors of the higher ring orders.
+//  - Sellmeier: n² = 1 + Σ B_i·λ² / (λ² − C_i), λ in µm, C_i in µm²
+//  - Cauchy: n = A + B / λ² + C / λ⁴, λ in µm
+//  - Table: n and k at listed wavelengths, linearly interpolated and held
+//    constant beyond the ends
+// Sellmeier and Cauchy give n only; k stays the material's fixed value.
+
+export const refractiveIndexSchema = z.object({
+  real: z.number().min(1, 'n must be at least 1').max(4),
+  imag: z.number().min(0, 'k cannot be negative').max(10),
+});
+
+export type RefractiveIndex = z.infer<typeof refractiveIndexSchema>;
+
+const sellmeierTermSchema = z.object({
+  B: z.number().min(0).max(10),
+  C: z.number().min(0, 'C cannot be negative').max(1e4),
+});
+
+type SellmeierTerm = z.infer<typeof sellmeierTermSchema>;
+
+// Visible range (µm) the coefficients must describe without a resonance
+const VISIBLE_MIN = 0.4;
+const VISIBLE_MAX = 0.7;
+
+// n² from the Sellmeier sum at λ (µm)
+const sellmeierSquared = (terms: SellmeierTerm[], lambda: number): number => {
+  const l2 = lambda * lambda;
+  return terms.reduce((sum, { B, C }) => sum + (B * l2) / (l2 - C), 1);
+};
+
+// A resonance (λ² = C) inside the visible sends n to infinity on one side and
+// below 1 on the other, so such coefficients are rejected on the field that
+// causes them; otherwise n must stay within the index limits at every 5 nm
+const sellmeierTermsSchema = z.array(sellmeierTermSchema).length(3).superRefine((terms, ctx) => {
+  terms.forEach(({ B, C }, i) => {
+    if (B > 0 && C >= VISIBLE_MIN ** 2 && C <= VISIBLE_MAX ** 2) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i, 'C'], message: 'Resonance falls within 400–700 nm' });
+    }
+  });
+  for (let nm = 400; nm <= 700; nm += 5) {
+    const n2 = sellmeierSquared(terms, nm / 1000);
+    if (!(n2 >= 1 && n2 <= 16)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [0, 'B'], message: 'n must stay between 1 and 4 across 400–700 nm' });
+      return;
+    }
+  }
+});
+
+const tablePointSchema = z.object({
+  // nm
+  wavelength: z.number().positive(),
+  n: z.number().min(1, 'n must be at least 1').max(4),
+  k: z.number().min(0, 'k cannot be negative').max(10),
+});
+
+export const dispersionSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('sellmeier'), terms: sellmeierTermsSchema }),
+  z.object({ kind: z.literal('cauchy'), A: z.number().min(1).max(4), B: z.number(), C: z.number() }),
+  z.object({ kind: z.literal('table'), points: z.array(tablePointSchema).min(2, 'List at least two wavelengths').max(200) }),
+]);
+
+export type Dispersion = z.infer<typeof dispersionSchema>;
+
+export type DispersionKind = Dispersion['kind'];
+
+export type TablePoint = z.infer<typeof tablePointSchema>;
+
+export const dispersionKindLabels: Record<DispersionKind, string> = {
+  sellmeier: 'Sellmeier',
+  cauchy: 'Cauchy',
+  table: 'Tabulated n(λ), k(λ)',
+};
+
+// Starting coefficients when a material switches to a dispersion formula,
+// matching an index near `n` at 633 nm
+export const defaultDispersion = (kind: DispersionKind, n: number, k: number): Dispersion => {
+  switch (kind) {
+    case 'sellmeier':
+      // One resonance at 100 nm, the typical UV absorption of glasses
+      return {
+        kind,
+        terms: [{ B: (n * n - 1) * (1 - 0.01 / 0.4), C: 0.01 }, { B: 0, C: 0 }, { B: 0, C: 0 }],
+      };
+    case 'cauchy':
+      return { kind, A: Math.max(1, n - 0.004 / 0.4), B: 0.004, C: 0 };
+    case 'table':
+      return { kind, points: [{ wavelength: 400, n, k }, { wavelength: 700, n, k }] };
+  }
+};
+
+// Index at `wavelength` (nm); `fixed` supplies k for the formulas
+export const evaluateDispersion = (dispersion: Dispersion, fixed: RefractiveIndex, wavelength: number): RefractiveIndex => {
+  const lambda = wavelength / 1000;
+
+  switch (dispersion.kind) {
+    case 'sellmeier': {
+      // Near a resonance, or where the sum drops below 1, the formula no
+      // longer describes the material; keep the fixed index there
+      const l2 = lambda * lambda;
+      const nearPole = dispersion.terms.some(({ B, C }) => B > 0 && Math.abs(l2 - C) < 1e-3 * l2);
+      const n2 = sellmeierSquared(dispersion.terms, lambda);
+      return nearPole || !(n2 >= 1 && n2 <= 16) ? fixed : { real: Math.sqrt(n2), imag: fixed.imag };
+    }
+    case 'cauchy': {
+      const l2 = lambda * lambda;
+      return { real: dispersion.A + dispersion.B / l2 + dispersion.C / (l2 * l2), imag: fixed.imag };
+    }
+    case 'table': {
+      const points = [...dispersion.points].sort((a, b) => a.wavelength - b.wavelength);
+      if (points.length === 0) return fixed;
+      if (wavelength <= points[0].wavelength) return { real: points[0].n, imag: points[0].k };
+      for (let i = 1; i < points.length; i++) {
+        if (wavelength <= points[i].wavelength) {
+          const from = points[i - 1];
+          const to = points[i];
+          const t = (wavelength - from.wavelength) / (to.wavelength - from.wavelength);
+          return { real: from.n + (to.n - from.n) * t, imag: from.k + (to.k - from.k) * t };
+        }
+      }
+      const last = points[points.length - 1];
+      return { real: last.n, imag: last.k };
+    }
+  }
+};
+
+// One "wavelength n k" point per line, the layout of most published tables;
+// lines that do not parse are skipped
+export const parseDispersionTable = (text: string): TablePoint[] =>
+  text.split('\n').flatMap((line) => {
+    const [wavelength, n, k = 0] = line.trim().split(/[\s,;]+/).map(Number);
+    return Number.isFinite(wavelength) && Number.isFinite(n) && Number.isFinite(k) ? [{ wavelength, n, k }] : [];
+  });
+
+export const formatDispersionTable = (points: TablePoint[]): string =>
+  points.map(({ wavelength, n, k }) => `${wavelength} ${n} ${k}`).join('\n');
@@ -0,0 +1,41 @@
+// Display mappings from relative intensity (I / I_max in [0, 1]) to pixel
+// brightness in [0, 1]. The Airy rings are only a few percent of the central
+// peak, so a linear mapping hides everything beyond the first ring.
+
+export type DisplayMapping = 'linear' | 'log' | 'gamma';
+
+export interface DisplaySettings {
+  mapping: DisplayMapping;
+  // Exponent for the gamma mapping (brightness = I^(1/γ))
+  gamma: number;
+  // Orders of magnitude shown by the log mapping
+  logDecades: number;
+}
+
+export const defaultDisplaySettings: DisplaySettings = {
+  mapping: 'log',
+  gamma: 3,
+  logDecades: 4,
+};
+
+export const displayMappingLabels: Record<DisplayMapping, string> = {
+  linear: 'Linear',
+  log: 'Logarithmic',
+  gamma: 'Gamma',
+};
+
+export const mapIntensity = (intensity: number, settings: DisplaySettings): number => {
+  if (!(intensity > 0)) return 0;
+  const value = Math.min(intensity, 1);
+
+  switch (settings.mapping) {
+    case 'log': {
+      const decades = Math.max(settings.logDecades, 0.1);
+      return Math.max(0, 1 + Math.log10(value) / decades);
+    }
+    case 'gamma':
+      return Math.pow(value, 1 / Math.max(settings.gamma, 0.1));
+    default:
+      return value;
+  }
+};
@@ -0,0 +1,220 @@
+import { IntensityProfile, PolarizedProfiles, ScatteringModel, ScatteringParams, computeScattering } from './models';
+
+// Particle size distributions and the ensemble scattering they produce.
+// Sizes are in micrometers throughout.
+
+export type DistributionKind = 'monodisperse' | 'normal' | 'lognormal' | 'rosin-rammler' | 'histogram';
+
+// Whether weights count particles or the volume they occupy
+export type DistributionBasis = 'number' | 'volume';
+
+// Weightings that size statistics can be reported in
+export type SizeWeighting = DistributionBasis | 'surface';
+
+export const sizeWeightingLabels: Record<SizeWeighting, string> = {
+  number: 'By Number',
+  surface: 'By Surface',
+  volume: 'By Volume',
+};
+
+// Power of d each weighting scales with
+const weightingExponents: Record<SizeWeighting, number> = {
+  number: 0,
+  surface: 2,
+  volume: 3,
+};
+
+export interface SizeDistribution {
+  kind: DistributionKind;
+  // Characteristic size: mean (normal), median (log-normal), x₆₃ (Rosin–Rammler)
+  size: number;
+  // Spread: standard deviation in µm (normal), σ of ln d (log-normal),
+  // uniformity index n (Rosin–Rammler)
+  width: number;
+  basis: DistributionBasis;
+  // Relative weights over HISTOGRAM_SIZES, used by the 'histogram' kind
+  histogram: number[];
+}
+
+// Discretized distribution: bin center sizes and weights summing to 1
+export interface SizeBins {
+  sizes: number[];
+  weights: number[];
+}
+
+export const distributionKindLabels: Record<DistributionKind, string> = {
+  monodisperse: 'Single Size',
+  normal: 'Normal',
+  lognormal: 'Log-Normal',
+  'rosin-rammler': 'Rosin–Rammler',
+  histogram: 'Custom Histogram',
+};
+
+export const distributionSizeLabels: Record<DistributionKind, string> = {
+  monodisperse: 'Particle Size',
+  normal: 'Mean Size',
+  lognormal: 'Median Size',
+  'rosin-rammler': 'Size x₆₃',
+  histogram: 'Particle Size',
+};
+
+export const distributionWidthLabels: Partial<Record<DistributionKind, string>> = {
+  normal: 'Std. Deviation (µm)',
+  lognormal: 'Log Width (σ)',
+  'rosin-rammler': 'Uniformity (n)',
+};
+
+export const defaultDistributionWidths: Partial<Record<DistributionKind, number>> = {
+  normal: 3,
+  lognormal: 0.3,
+  'rosin-rammler': 3,
+};
+
+// Log-spaced bin centers for the user-drawn histogram, 1–200 µm
+export const HISTOGRAM_SIZES = Array.from({ length: 24 }, (_, i) => Math.pow(200, (i + 0.5) / 24));
+
+export const DEFAULT_BIN_COUNT = 30;
+
+// Error function, Abramowitz & Stegun 7.1.26 (|error| < 1.5e-7)
+const erf = (x: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741
+    + t * (-1.453152027 + t * 1.061405429))));
+  const value = 1 - poly * Math.exp(-x * x);
+  return x < 0 ? -value : value;
+};
+
+const normalCdf = (z: number): number => 0.5 * (1 + erf(z / Math.SQRT2));
+
+// Cumulative distribution and the size range holding all but ~0.1% of it
+const cumulative = ({ kind, size, width }: SizeDistribution): {
+  cdf: (d: number) => number;
+  range: [number, number];
+} => {
+  switch (kind) {
+    case 'normal':
+      return {
+        cdf: (d) => normalCdf((d - size) / width),
+        range: [Math.max(size - 3.5 * width, size * 0.01), size + 3.5 * width],
+      };
+    case 'lognormal':
+      return {
+        cdf: (d) => normalCdf(Math.log(d / size) / width),
+        range: [size * Math.exp(-3.5 * width), size * Math.exp(3.5 * width)],
+      };
+    default: {
+      // Rosin–Rammler: F(d) = 1 − exp[−(d/x₆₃)ⁿ]
+      const quantile = (p: number) => size * Math.pow(-Math.log(1 - p), 1 / width);
+      return {
+        cdf: (d) => 1 - Math.exp(-Math.pow(d / size, width)),
+        range: [quantile(0.001), quantile(0.999)],
+      };
+    }
+  }
+};
+
+const normalize = (sizes: number[], weights: number[]): SizeBins => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return total > 0
+    ? { sizes, weights: weights.map((w) => w / total) }
+    : { sizes: [], weights: [] };
+};
+
+// Weights per bin in the distribution's own basis
+export const discretizeDistribution = (
+  distribution: SizeDistribution,
+  binCount: number = DEFAULT_BIN_COUNT
+): SizeBins => {
+  const { kind, size, width } = distribution;
+
+  if (kind === 'histogram') {
+    return normalize(HISTOGRAM_SIZES, HISTOGRAM_SIZES.map((_, i) => Math.max(0, distribution.histogram[i] ?? 0)));
+  }
+
+  if (!(size > 0)) return { sizes: [], weights: [] };
+  if (kind === 'monodisperse' || !(width > 0)) return { sizes: [size], weights: [1] };
+
+  // Log-spaced bins; weights are the CDF mass inside each bin
+  const { cdf, range } = cumulative(distribution);
+  const logMin = Math.log(range[0]);
+  const logStep = (Math.log(range[1]) - logMin) / binCount;
+  const sizes: number[] = [];
+  const weights: number[] = [];
+
+  for (let i = 0; i < binCount; i++) {
+    const low = Math.exp(logMin + i * logStep);
+    const high = Math.exp(logMin + (i + 1) * logStep);
+    sizes.push(Math.sqrt(low * high));
+    weights.push(cdf(high) - cdf(low));
+  }
+
+  return normalize(sizes, weights);
+};
+
+// Convert bin weights between number, surface (∝ d²) and volume (∝ d³) basis
+export const convertBasis = (bins: SizeBins, from: SizeWeighting, to: SizeWeighting): SizeBins => {
+  if (from === to) return bins;
+  const exponent = weightingExponents[to] - weightingExponents[from];
+  return normalize(bins.sizes, bins.weights.map((w, i) => w * Math.pow(bins.sizes[i], exponent)));
+};
+
+export interface EnsembleScattering {
+  // Ensemble intensity normalized to 1 at θ = 0
+  profile: IntensityProfile;
+  // The same split by polarization, on the same scale
+  polarized: PolarizedProfiles;
+  // Mean forward intensity |S(0)|² per particle
+  forwardIntensity: number;
+  // Mean particle volume (µm³)
+  meanVolume: number;
+}
+
+// Incoherent sum of the single-particle patterns over the distribution.
+// Each size contributes its number fraction times its forward intensity, so
+// large particles dominate the center the way they do in a real sample.
+export const computeEnsemble = (
+  model: ScatteringModel,
+  params: ScatteringParams,
+  distribution: SizeDistribution,
+  binCount: number = DEFAULT_BIN_COUNT
+): EnsembleScattering => {
+  const bins = convertBasis(discretizeDistribution(distribution, binCount), distribution.basis, 'number');
+
+  const components = bins.sizes.map((size, i) => {
+    const { profile, polarized, forwardIntensity } = computeScattering(model, { ...params, particleSize: size * 1e-6 });
+    return { profile, polarized, weight: bins.weights[i] * forwardIntensity };
+  });
+
+  const forwardIntensity = components.reduce((sum, c) => sum + c.weight, 0);
+  const meanVolume = bins.sizes.reduce((sum, size, i) => sum + bins.weights[i] * (Math.PI / 6) * size * size * size, 0);
+
+  if (!(forwardIntensity > 0)) {
+    return { profile: () => 0, polarized: { perpendicular: () => 0, parallel: () => 0 }, forwardIntensity: 0, meanVolume };
+  }
+
+  // Weighted sum of one per-size profile
+  const sum = (pick: (c: (typeof components)[number]) => IntensityProfile): IntensityProfile => (theta) => {
+    let intensity = 0;
+    for (const component of components) {
+      intensity += component.weight * pick(component)(theta);
+    }
+    return intensity / forwardIntensity;
+  };
+
+  return {
+    profile: sum((c) => c.profile),
+    polarized: {
+      perpendicular: sum((c) => c.polarized.perpendicular),
+      parallel: sum((c) => c.polarized.parallel),
+    },
+    forwardIntensity,
+    meanVolume,
+  };
+};
+
+export const createEnsembleProfile = (
+  model: ScatteringModel,
+  params: ScatteringParams,
+  distribution: SizeDistribution,
+  binCount: number = DEFAULT_BIN_COUNT
+): IntensityProfile => computeEnsemble(model, params, distribution, binCount).profile;
@@ -0,0 +1,74 @@
+// Radix-2 fast Fourier transforms on split real/imaginary arrays.
+
+// Twiddle factors exp(−2πi·k/n) for k < n/2, computed once per length; a
+// stage of size s uses every (n/s)-th entry
+const twiddleCache = new Map<number, { cos: Float64Array; sin: Float64Array }>();
+
+const twiddles = (n: number) => {
+  let table = twiddleCache.get(n);
+  if (!table) {
+    const half = n >> 1;
+    table = { cos: new Float64Array(half), sin: new Float64Array(half) };
+    for (let k = 0; k < half; k++) {
+      table.cos[k] = Math.cos((-2 * Math.PI * k) / n);
+      table.sin[k] = Math.sin((-2 * Math.PI * k) / n);
+    }
+    twiddleCache.set(n, table);
+  }
+  return table;
+};
+
+// In-place iterative Cooley–Tukey FFT of `n` points starting at `offset` with
+// the given stride; n must be a power of two
+const fftStrided = (re: Float64Array, im: Float64Array, n: number, offset: number, stride: number) => {
+  const table = twiddles(n);
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      const a = offset + i * stride;
+      const b = offset + j * stride;
+      const tRe = re[a];
+      const tIm = im[a];
+      re[a] = re[b];
+      im[a] = im[b];
+      re[b] = tRe;
+      im[b] = tIm;
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = table.cos[k * step];
+        const sin = table.sin[k * step];
+        const a = offset + (start + k) * stride;
+        const b = a + half * stride;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+};
+
+export const isPowerOfTwo = (n: number) => n > 0 && (n & (n - 1)) === 0;
+
+export const fft = (re: Float64Array, im: Float64Array) => {
+  if (!isPowerOfTwo(re.length)) throw new Error(`FFT length ${re.length} is not a power of two`);
+  fftStrided(re, im, re.length, 0, 1);
+};
+
+// 2D FFT of an n×n row-major grid: rows first, then columns
+export const fft2d = (re: Float64Array, im: Float64Array, n: number) => {
+  if (!isPowerOfTwo(n) || re.length !== n * n) throw new Error(`2D FFT needs an n×n grid with n a power of two`);
+  for (let row = 0; row < n; row++) fftStrided(re, im, n, row * n, 1);
+  for (let col = 0; col < n; col++) fftStrided(re, im, n, col, n);
+};
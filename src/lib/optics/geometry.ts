@@ -0,0 +1,56 @@
+// Detector geometries: how a scattering angle θ maps to a radius on the
+// detector. Lengths are in any consistent unit.
+
+export type DetectorGeometry = 'screen' | 'lens' | 'curved';
+
+export const detectorGeometryLabels: Record<DetectorGeometry, string> = {
+  screen: 'Flat Screen',
+  lens: 'Fourier Lens',
+  curved: 'Curved Detector',
+};
+
+// Name of the length that sets the scale in each geometry
+export const detectorLengthLabels: Record<DetectorGeometry, string> = {
+  screen: 'Screen Distance',
+  lens: 'Focal Length',
+  curved: 'Detector Radius',
+};
+
+export const detectorFormulas: Record<DetectorGeometry, string> = {
+  screen: 'R = D·tan θ',
+  lens: 'R = f·θ',
+  curved: 'R = D·θ',
+};
+
+export const detectorDescriptions: Record<DetectorGeometry, string> = {
+  screen: 'Light from each particle lands where its ray meets the screen, so moving a particle shifts its '
+    + 'rings, and the tan θ stretch spreads wide angles out.',
+  lens: 'The lens focuses every ray leaving at angle θ onto the same radius in its back focal plane, '
+    + 'wherever the particle sits in the beam. This is why analyzers use one.',
+  curved: 'A detector curved around the sample keeps the distance fixed, so the arc length grows linearly '
+    + 'with angle. Only particles at the center of curvature map exactly.',
+};
+
+// Largest angle each geometry can place on the detector
+const MAX_ANGLE = Math.PI / 2;
+
+// Particles suspended in a liquid scatter at θ inside the cell; light leaving
+// through the flat window refracts to n·sin θ = sin θ_air (the window's own
+// index cancels between its two faces). Light beyond the critical angle is
+// trapped by total internal reflection and mapped to the detector edge.
+export const angleInAir = (theta: number, mediumIndex: number): number => {
+  const sine = mediumIndex * Math.sin(Math.min(theta, MAX_ANGLE));
+  return sine >= 1 ? MAX_ANGLE : Math.asin(sine);
+};
+
+export const angleInMedium = (thetaAir: number, mediumIndex: number): number =>
+  Math.asin(Math.sin(Math.min(thetaAir, MAX_ANGLE)) / mediumIndex);
+
+// Scattering angle θ inside a medium of the given index to detector radius
+export const angleToRadius = (geometry: DetectorGeometry, length: number, theta: number, mediumIndex = 1): number => {
+  const angle = angleInAir(theta, mediumIndex);
+  return geometry === 'screen' ? length * Math.tan(angle) : length * angle;
+};
+
+export const radiusToAngle = (geometry: DetectorGeometry, length: number, radius: number, mediumIndex = 1): number =>
+  angleInMedium(geometry === 'screen' ? Math.atan(radius / length) : Math.min(radius / length, MAX_ANGLE), mediumIndex);
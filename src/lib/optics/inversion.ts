@@ -0,0 +1,257 @@
+import { SizeBins } from './distribution';
+import { ScatteringModel, ScatteringParams, computeScattering } from './models';
+
+// Size distribution inversion: recover volume fractions over log-spaced size
+// bins from an angular intensity profile by regularized non-negative least
+// squares against the simulator's own forward model.
+
+export interface MeasuredProfile {
+  // Scattering angles (radians), ascending
+  theta: number[];
+  // Intensity in arbitrary units
+  intensity: number[];
+  // For readings that average over an area (ring detectors): the angles and
+  // weights each reading averages the intensity over
+  quadrature?: { theta: number[]; weights: number[] }[];
+}
+
+export interface InversionSettings {
+  // Size range of the recovered distribution (µm)
+  minSize: number;
+  maxSize: number;
+  binCount: number;
+  // Smoothing strength as log₁₀ of the dimensionless Tikhonov parameter
+  smoothing: number;
+}
+
+export interface InversionResult {
+  // Recovered distribution by volume
+  bins: SizeBins;
+  // Model intensity at the measured angles, on the measured scale
+  fitted: number[];
+  // Relative residual (fitted − measured) / measured at each angle
+  residuals: number[];
+  // RMS of the weighted residuals
+  rmsResidual: number;
+  // False when the solver hit its iteration cap before the optimality test
+  // passed; the distribution is then only partly converged
+  converged: boolean;
+}
+
+export const defaultInversionSettings: InversionSettings = {
+  minSize: 1,
+  maxSize: 200,
+  binCount: 40,
+  smoothing: -3,
+};
+
+// Intensities below this fraction of the peak are weighted as if they sat at
+// it, so zeros in the dark rings do not dominate the fit
+const WEIGHT_FLOOR = 1e-4;
+
+// Scattered intensity per unit particle volume for each bin (columns) at each
+// reading (rows)
+export const buildKernel = (
+  model: ScatteringModel,
+  params: ScatteringParams,
+  sizes: number[],
+  { theta, quadrature }: Pick<MeasuredProfile, 'theta' | 'quadrature'>
+): number[][] => {
+  const columns = sizes.map((size) => {
+    const { profile, forwardIntensity } = computeScattering(model, { ...params, particleSize: size * 1e-6 });
+    const scale = forwardIntensity / (size * size * size);
+    return theta.map((t, i) => {
+      const nodes = quadrature?.[i];
+      return scale * (nodes ? nodes.theta.reduce((sum, node, k) => sum + nodes.weights[k] * profile(node), 0) : profile(t));
+    });
+  });
+  return theta.map((_, i) => columns.map((column) => column[i]));
+};
+
+// Solve the n×n system A·x = b by Gaussian elimination with partial pivoting
+const solveLinear = (matrix: number[][], rhs: number[]): number[] => {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const diagonal = a[col][col] || 1e-300;
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / diagonal;
+      if (factor === 0) continue;
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / (a[row][row] || 1e-300);
+  }
+  return x;
+};
+
+export interface NnlsSolution {
+  x: number[];
+  converged: boolean;
+}
+
+// Lawson–Hanson active-set NNLS on the normal equations: minimize
+// ½xᵀGx − hᵀx subject to x ≥ 0
+export const solveNnls = (gram: number[][], rhs: number[], maxIterations: number = 500): NnlsSolution => {
+  const n = rhs.length;
+  const x = new Array<number>(n).fill(0);
+  const passive = new Array<boolean>(n).fill(false);
+  const scale = Math.max(...rhs.map(Math.abs), 1e-300);
+  const tolerance = 1e-12 * scale;
+
+  const gradient = () => rhs.map((h, i) => h - gram[i].reduce((sum, g, j) => sum + g * x[j], 0));
+
+  // Unconstrained solution on the passive set, zero elsewhere
+  const solvePassive = (): number[] => {
+    const indices = passive.flatMap((p, i) => (p ? [i] : []));
+    const z = new Array<number>(n).fill(0);
+    const solution = solveLinear(indices.map((i) => indices.map((j) => gram[i][j])), indices.map((i) => rhs[i]));
+    indices.forEach((i, k) => (z[i] = solution[k]));
+    return z;
+  };
+
+  // A variable whose unconstrained value comes out non-positive as it enters
+  // can only do so through rounding (Lawson–Hanson step 6); it is passed over
+  // until another variable enters, which breaks the cycle of it re-entering
+  const rejected = new Array<boolean>(n).fill(false);
+  let converged = false;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const w = gradient();
+    let entering = -1;
+    for (let i = 0; i < n; i++) {
+      if (!passive[i] && !rejected[i] && w[i] > tolerance && (entering < 0 || w[i] > w[entering])) entering = i;
+    }
+    if (entering < 0) {
+      converged = true;
+      break;
+    }
+    passive[entering] = true;
+
+    let z = solvePassive();
+    if (!(z[entering] > 0)) {
+      passive[entering] = false;
+      rejected[entering] = true;
+      continue;
+    }
+    rejected.fill(false);
+
+    for (let inner = 0; inner < n; inner++) {
+      if (inner > 0) z = solvePassive();
+      // Only variables heading below zero limit the step, and then x > z
+      // keeps the ratio finite
+      let step = 1;
+      for (let i = 0; i < n; i++) {
+        if (passive[i] && z[i] <= 0 && x[i] > z[i]) step = Math.min(step, x[i] / (x[i] - z[i]));
+      }
+      for (let i = 0; i < n; i++) x[i] += step * (z[i] - x[i]);
+      if (step === 1) break;
+
+      // Variables that hit zero leave the passive set
+      for (let i = 0; i < n; i++) {
+        if (passive[i] && x[i] <= 1e-15 * scale) {
+          passive[i] = false;
+          x[i] = 0;
+        }
+      }
+    }
+  }
+
+  return { x, converged };
+};
+
+// Log-spaced bin centers over [minSize, maxSize]
+export const inversionSizes = ({ minSize, maxSize, binCount }: InversionSettings): number[] => {
+  const logMin = Math.log(minSize);
+  const logStep = (Math.log(maxSize) - logMin) / binCount;
+  return Array.from({ length: binCount }, (_, i) => Math.exp(logMin + (i + 0.5) * logStep));
+};
+
+// Minimize ‖W(Kx − y)‖² + α‖Lx‖² over x ≥ 0, where W weights each angle by its
+// relative error and L is the second difference across bins. α is scaled by
+// the trace ratio of the two terms so the smoothing setting is dimensionless.
+export const invertProfile = (
+  measured: MeasuredProfile,
+  model: ScatteringModel,
+  params: ScatteringParams,
+  settings: InversionSettings = defaultInversionSettings
+): InversionResult | null => {
+  const { theta, intensity } = measured;
+  const peak = Math.max(...intensity);
+  if (theta.length < 3 || !(peak > 0) || !(settings.minSize > 0) || !(settings.maxSize > settings.minSize)) {
+    return null;
+  }
+
+  const sizes = inversionSizes(settings);
+  const n = sizes.length;
+  const y = intensity.map((value) => value / peak);
+  const weights = y.map((value) => 1 / (Math.max(value, 0) + WEIGHT_FLOOR));
+  const kernel = buildKernel(model, params, sizes, measured);
+
+  // Columns span many decades; rescale them to unit norm for conditioning
+  const columnScale = sizes.map((_, j) =>
+    1 / Math.sqrt(kernel.reduce((sum, row, i) => sum + (row[j] * weights[i]) ** 2, 0) || 1));
+  const a = kernel.map((row, i) => row.map((k, j) => k * weights[i] * columnScale[j]));
+  const b = y.map((value, i) => value * weights[i]);
+
+  const gram = Array.from({ length: n }, (_, j) =>
+    Array.from({ length: n }, (_, k) => a.reduce((sum, row) => sum + row[j] * row[k], 0)));
+  const rhs = Array.from({ length: n }, (_, j) => a.reduce((sum, row, i) => sum + row[j] * b[i], 0));
+
+  // Smoothness is imposed on the physical volume fractions x = columnScale·z
+  const roughness = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 1; i < n - 1; i++) {
+    const stencil: [number, number][] = [[i - 1, 1], [i, -2], [i + 1, 1]];
+    for (const [j, lj] of stencil) {
+      for (const [k, lk] of stencil) {
+        roughness[j][k] += lj * lk * columnScale[j] * columnScale[k];
+      }
+    }
+  }
+  const gramTrace = gram.reduce((sum, row, i) => sum + row[i], 0);
+  const roughnessTrace = roughness.reduce((sum, row, i) => sum + row[i], 0) || 1;
+  const alpha = Math.pow(10, settings.smoothing) * gramTrace / roughnessTrace;
+
+  const solution = solveNnls(gram.map((row, j) => row.map((g, k) => g + alpha * roughness[j][k])), rhs);
+  const volumes = solution.x.map((value, j) => value * columnScale[j]);
+
+  const fitted = kernel.map((row) => row.reduce((sum, k, j) => sum + k * volumes[j], 0) * peak);
+  const residuals = fitted.map((value, i) => (value - intensity[i]) / (Math.abs(intensity[i]) + WEIGHT_FLOOR * peak));
+  const rmsResidual = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length);
+
+  const total = volumes.reduce((sum, v) => sum + v, 0);
+  return {
+    bins: { sizes, weights: total > 0 ? volumes.map((v) => v / total) : volumes },
+    fitted,
+    residuals,
+    rmsResidual,
+    converged: solution.converged,
+  };
+};
+
+// Two-column text (angle in degrees, intensity), comma, semicolon, tab or
+// space separated. Header and comment lines are skipped.
+export const parseProfileCsv = (text: string): MeasuredProfile | null => {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line) => line.trim().split(/[\s,;]+/).map(Number))
+    .filter((values) => values.length >= 2 && Number.isFinite(values[0]) && Number.isFinite(values[1]))
+    .sort((a, b) => a[0] - b[0]);
+
+  if (rows.length < 3) return null;
+  return {
+    theta: rows.map(([degrees]) => (degrees * Math.PI) / 180),
+    intensity: rows.map(([, value]) => value),
+  };
+};
@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import { RefractiveIndex, dispersionSchema, evaluateDispersion, refractiveIndexSchema } from './dispersion';
+
+// Particle materials with the optical and physical properties the
+// scattering models need. Refractive indices are for red light (~633 nm);
+// materials with dispersion data follow it across the visible instead.
+
+export const materialShapes = ['sphere', 'irregular', 'platelet', 'fiber', 'biconcave disc'] as const;
+
+export const materialSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, 'Name is required').max(60),
+  refractiveIndex: refractiveIndexSchema,
+  dispersion: dispersionSchema.optional(),
+  // g/cm³
+  density: z.number().positive('Density must be positive').max(25),
+  shape: z.enum(materialShapes),
+  // Typical size distribution (µm), in volume basis
+  distribution: z.object({
+    kind: z.enum(['monodisperse', 'normal', 'lognormal', 'rosin-rammler']),
+    size: z.number().positive('Size must be positive').max(2000),
+    width: z.number().min(0),
+  }),
+  description: z.string().max(500),
+  reference: z.string().max(300),
+});
+
+export const materialLibrarySchema = z.array(materialSchema);
+
+export type Material = z.infer<typeof materialSchema>;
+
+export type MaterialShape = Material['shape'];
+
+export const builtInMaterials: Material[] = [
+  {
+    id: 'lycopodium',
+    name: 'Lycopodium Powder',
+    refractiveIndex: { real: 1.53, imag: 0.001 },
+    density: 1.06,
+    shape: 'sphere',
+    distribution: { kind: 'lognormal', size: 30, width: 0.08 },
+    description: 'Spores of Lycopodium clavatum. Nearly monodisperse and nearly spherical, the classic classroom diffraction sample.',
+    reference: 'ISO 13320:2020, Particle size analysis — Laser diffraction methods',
+  },
+  {
+    id: 'silica',
+    name: 'Silica Particles',
+    refractiveIndex: { real: 1.457, imag: 0 },
+    dispersion: {
+      kind: 'sellmeier',
+      terms: [
+        { B: 0.6961663, C: 0.0684043 ** 2 },
+        { B: 0.4079426, C: 0.1162414 ** 2 },
+        { B: 0.8974794, C: 9.896161 ** 2 },
+      ],
+    },
+    density: 2.2,
+    shape: 'sphere',
+    distribution: { kind: 'lognormal', size: 5, width: 0.25 },
+    description: 'Amorphous silica microspheres. Small enough that Mie theory is needed for red light.',
+    reference: 'Malitson, I. H. (1965). J. Opt. Soc. Am. 55, 1205–1209',
+  },
+  {
+    id: 'glass-beads',
+    name: 'Glass Beads',
+    refractiveIndex: { real: 1.52, imag: 0 },
+    density: 2.5,
+    shape: 'sphere',
+    distribution: { kind: 'normal', size: 60, width: 8 },
+    description: 'Soda-lime glass microspheres, common as a verification standard for laser diffraction instruments.',
+    reference: 'Rubin, M. (1985). Solar Energy Materials 12, 275–288',
+  },
+  {
+    id: 'polystyrene-latex',
+    name: 'Polystyrene Latex',
+    refractiveIndex: { real: 1.587, imag: 0 },
+    dispersion: { kind: 'sellmeier', terms: [{ B: 1.4435, C: 0.020216 }, { B: 0, C: 0 }, { B: 0, C: 0 }] },
+    density: 1.05,
+    shape: 'sphere',
+    distribution: { kind: 'normal', size: 10, width: 0.1 },
+    description: 'Monodisperse polystyrene spheres sold as certified size standards.',
+    reference: 'Sultanova, N., Kasarova, S. & Nikolov, I. (2009). Acta Physica Polonica A 116, 585–587',
+  },
+  {
+    id: 'talc',
+    name: 'Talc',
+    refractiveIndex: { real: 1.57, imag: 0.001 },
+    density: 2.75,
+    shape: 'platelet',
+    distribution: { kind: 'rosin-rammler', size: 15, width: 1.5 },
+    description: 'Ground magnesium silicate. Thin platelets, so spherical models misjudge its size.',
+    reference: 'Anthony, J. W. et al., Handbook of Mineralogy, Mineralogical Society of America',
+  },
+  {
+    id: 'milk-fat',
+    name: 'Milk Fat Globules',
+    refractiveIndex: { real: 1.46, imag: 0.00001 },
+    density: 0.92,
+    shape: 'sphere',
+    distribution: { kind: 'lognormal', size: 3.5, width: 0.4 },
+    description: 'Fat globules of raw milk, measured dispersed in water.',
+    reference: 'Michalski, M.-C., Briard, V. & Michel, F. (2001). Lait 81, 787–796',
+  },
+  {
+    id: 'red-blood-cells',
+    name: 'Red Blood Cells',
+    refractiveIndex: { real: 1.40, imag: 0.0001 },
+    density: 1.10,
+    shape: 'biconcave disc',
+    distribution: { kind: 'normal', size: 7.8, width: 0.6 },
+    description: 'Human erythrocytes, biconcave discs about 7.8 µm across and 2 µm thick.',
+    reference: 'Friebel, M. & Meinke, M. (2006). Applied Optics 45, 2838–2842',
+  },
+];
+
+// Index at `wavelength` (nm): from the dispersion data when present, else
+// the fixed value
+export const refractiveIndexAt = (material: Material, wavelength: number): RefractiveIndex =>
+  material.dispersion && wavelength > 0
+    ? evaluateDispersion(material.dispersion, material.refractiveIndex, wavelength)
+    : material.refractiveIndex;
+
+const STORAGE_KEY = 'laser-diffraction.materials';
+
+// User materials from localStorage; entries that fail validation are dropped
+export const loadUserMaterials = (): Material[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed.flatMap((entry) => {
+      const result = materialSchema.safeParse(entry);
+      return result.success ? [result.data] : [];
+    });
+  } catch {
+    return [];
+  }
+};
+
+// Throws when the library fails validation or storage is full or blocked
+export const saveUserMaterials = (materials: Material[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(materialLibrarySchema.parse(materials)));
+};
+
+export const isBuiltInMaterial = (id: string) => builtInMaterials.some((m) => m.id === id);
+
+export const createMaterialId = () =>
+  `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
@@ -0,0 +1,19 @@
+// Media the particles can be dispersed in. The medium shortens the wavelength
+// to λ/n and sets the relative index m = n_particle / n_medium that the Mie
+// model depends on.
+
+export type SuspendingMedium = 'air' | 'water' | 'ethanol' | 'custom';
+
+export const suspendingMediumLabels: Record<SuspendingMedium, string> = {
+  air: 'Air (Dry)',
+  water: 'Water',
+  ethanol: 'Ethanol',
+  custom: 'Custom',
+};
+
+// Refractive indices near 589 nm and room temperature
+export const suspendingMediumIndices: Record<Exclude<SuspendingMedium, 'custom'>, number> = {
+  air: 1,
+  water: 1.333,
+  ethanol: 1.361,
+};
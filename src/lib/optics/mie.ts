@@ -0,0 +1,151 @@
+import { Complex, cAbs2, cAdd, cDiv, cMul, cScale, cSub, complex } from './complex';
+
+// Lorenz–Mie scattering by a homogeneous sphere, following the BHMIE
+// algorithm of Bohren & Huffman, "Absorption and Scattering of Light by
+// Small Particles" (1983), Appendix A.
+
+export interface MieCoefficients {
+  // Size parameter x = π·d·n_medium / λ
+  x: number;
+  // a[n − 1] and b[n − 1] hold the n-th electric and magnetic coefficients
+  a: Complex[];
+  b: Complex[];
+}
+
+export interface MieAmplitudes {
+  S1: Complex;
+  S2: Complex;
+}
+
+// Number of terms needed for convergence (Wiscombe's criterion as used by BHMIE)
+const termCount = (x: number): number => Math.round(x + 4 * Math.cbrt(x) + 2);
+
+// `relativeIndex` is the particle index over the medium index, m = (n + ik) / n_medium
+export const computeMieCoefficients = (x: number, relativeIndex: Complex): MieCoefficients => {
+  const nStop = termCount(x);
+  const y = cScale(relativeIndex, x);
+  const nMax = Math.round(Math.max(nStop, Math.hypot(y.re, y.im))) + 15;
+
+  // Logarithmic derivative D_n(mx) by downward recurrence, which is stable
+  // where the upward one is not
+  const D: Complex[] = new Array(nMax + 1);
+  D[nMax] = complex(0);
+  for (let n = nMax; n >= 1; n--) {
+    const nOverY = cDiv(complex(n), y);
+    D[n - 1] = cSub(nOverY, cDiv(complex(1), cAdd(D[n], nOverY)));
+  }
+
+  // Riccati–Bessel functions ψ_n(x) and χ_n(x) by upward recurrence
+  let psi0 = Math.cos(x);
+  let psi1 = Math.sin(x);
+  let chi0 = -Math.sin(x);
+  let chi1 = Math.cos(x);
+  let xi1 = complex(psi1, -chi1);
+
+  const a: Complex[] = [];
+  const b: Complex[] = [];
+
+  for (let n = 1; n <= nStop; n++) {
+    const psi = ((2 * n - 1) * psi1) / x - psi0;
+    const chi = ((2 * n - 1) * chi1) / x - chi0;
+    const xi = complex(psi, -chi);
+    const nOverX = complex(n / x);
+
+    const da = cAdd(cDiv(D[n], relativeIndex), nOverX);
+    a.push(cDiv(
+      cSub(cScale(da, psi), complex(psi1)),
+      cSub(cMul(da, xi), xi1)
+    ));
+
+    const db = cAdd(cMul(relativeIndex, D[n]), nOverX);
+    b.push(cDiv(
+      cSub(cScale(db, psi), complex(psi1)),
+      cSub(cMul(db, xi), xi1)
+    ));
+
+    psi0 = psi1;
+    psi1 = psi;
+    chi0 = chi1;
+    chi1 = chi;
+    xi1 = complex(psi1, -chi1);
+  }
+
+  return { x, a, b };
+};
+
+// Scattering amplitudes S1 (perpendicular) and S2 (parallel) at angle θ.
+// Accumulates in plain numbers since this runs once per rendered sample.
+export const mieAmplitudes = ({ a, b }: MieCoefficients, theta: number): MieAmplitudes => {
+  const mu = Math.cos(theta);
+  let piPrevious = 0;
+  let piCurrent = 1;
+  let s1Re = 0;
+  let s1Im = 0;
+  let s2Re = 0;
+  let s2Im = 0;
+
+  for (let n = 1; n <= a.length; n++) {
+    const tau = n * mu * piCurrent - (n + 1) * piPrevious;
+    const fn = (2 * n + 1) / (n * (n + 1));
+    const an = a[n - 1];
+    const bn = b[n - 1];
+
+    s1Re += fn * (an.re * piCurrent + bn.re * tau);
+    s1Im += fn * (an.im * piCurrent + bn.im * tau);
+    s2Re += fn * (an.re * tau + bn.re * piCurrent);
+    s2Im += fn * (an.im * tau + bn.im * piCurrent);
+
+    const piNext = ((2 * n + 1) * mu * piCurrent - (n + 1) * piPrevious) / n;
+    piPrevious = piCurrent;
+    piCurrent = piNext;
+  }
+
+  return { S1: complex(s1Re, s1Im), S2: complex(s2Re, s2Im) };
+};
+
+// Extinction, scattering and absorption efficiencies Q = C / (π·r²)
+export const mieEfficiencies = ({ x, a, b }: MieCoefficients) => {
+  let extinction = 0;
+  let scattering = 0;
+
+  for (let n = 1; n <= a.length; n++) {
+    const an = a[n - 1];
+    const bn = b[n - 1];
+    extinction += (2 * n + 1) * (an.re + bn.re);
+    scattering += (2 * n + 1) * (cAbs2(an) + cAbs2(bn));
+  }
+
+  const scale = 2 / (x * x);
+  return {
+    extinction: extinction * scale,
+    scattering: scattering * scale,
+    absorption: (extinction - scattering) * scale,
+  };
+};
+
+// Unpolarized forward-scattered intensity (|S1|² + |S2|²) / 2 at θ = 0
+export const mieForwardIntensity = (coefficients: MieCoefficients): number => {
+  const { S1, S2 } = mieAmplitudes(coefficients, 0);
+  return (cAbs2(S1) + cAbs2(S2)) / 2;
+};
+
+// Perpendicular |S1|² and parallel |S2|² intensities, each relative to the
+// unpolarized forward intensity (S1 = S2 at θ = 0)
+export const createMiePolarizedProfiles = (coefficients: MieCoefficients) => {
+  const forwardIntensity = mieForwardIntensity(coefficients);
+
+  return {
+    perpendicular: (theta: number): number => cAbs2(mieAmplitudes(coefficients, theta).S1) / forwardIntensity,
+    parallel: (theta: number): number => cAbs2(mieAmplitudes(coefficients, theta).S2) / forwardIntensity,
+  };
+};
+
+// Unpolarized scattered intensity relative to the forward direction θ = 0
+export const createMieProfile = (coefficients: MieCoefficients) => {
+  const forwardIntensity = mieForwardIntensity(coefficients);
+
+  return (theta: number): number => {
+    const { S1, S2 } = mieAmplitudes(coefficients, theta);
+    return (cAbs2(S1) + cAbs2(S2)) / 2 / forwardIntensity;
+  };
+};
@@ -0,0 +1,125 @@
+import { airyIntensityAt } from './airy';
+import { Complex, cScale } from './complex';
+import { fresnelIntensityAt } from './fresnel';
+import { computeMieCoefficients, createMiePolarizedProfiles, createMieProfile, mieForwardIntensity } from './mie';
+
+// Angular intensity models selectable in the simulator. Every profile maps a
+// scattering angle θ (radians) to intensity relative to the forward peak.
+
+export type ScatteringModel = 'fraunhofer' | 'fresnel' | 'mie';
+
+export type IntensityProfile = (theta: number) => number;
+
+export const scatteringModelLabels: Record<ScatteringModel, string> = {
+  fraunhofer: 'Fraunhofer (Airy)',
+  fresnel: 'Fresnel (Near Field, Scattered Part)',
+  mie: 'Mie',
+};
+
+export interface ScatteringParams {
+  // Vacuum wavelength (m)
+  wavelength: number;
+  // Particle diameter (m)
+  particleSize: number;
+  // Complex refractive index n + ik of the particle
+  particleIndex: Complex;
+  // Real refractive index of the surrounding medium
+  mediumIndex: number;
+  // Distance to the observation screen (m), used by the Fresnel model only;
+  // Infinity (or unset) is the far field
+  distance?: number;
+}
+
+// Intensities for light polarized perpendicular (|S1|²) and parallel (|S2|²)
+// to the scattering plane, relative to the unpolarized forward peak; the
+// unpolarized profile is their mean. Scalar diffraction has no preference.
+export interface PolarizedProfiles {
+  perpendicular: IntensityProfile;
+  parallel: IntensityProfile;
+}
+
+export interface ScatteringResult {
+  profile: IntensityProfile;
+  polarized: PolarizedProfiles;
+  // Absolute forward intensity |S(0)|², for weighting particles against each other
+  forwardIntensity: number;
+}
+
+export const computeScattering = (model: ScatteringModel, params: ScatteringParams): ScatteringResult => {
+  const { wavelength, particleSize, particleIndex, mediumIndex } = params;
+  const wavelengthInMedium = wavelength / mediumIndex;
+
+  if (!(wavelengthInMedium > 0) || !(particleSize > 0)) {
+    return { profile: () => 0, polarized: { perpendicular: () => 0, parallel: () => 0 }, forwardIntensity: 0 };
+  }
+
+  const x = (Math.PI * particleSize) / wavelengthInMedium;
+
+  if (model === 'mie') {
+    const relativeIndex = cScale(particleIndex, 1 / mediumIndex);
+    const coefficients = computeMieCoefficients(x, relativeIndex);
+    return {
+      profile: createMieProfile(coefficients),
+      polarized: createMiePolarizedProfiles(coefficients),
+      forwardIntensity: mieForwardIntensity(coefficients),
+    };
+  }
+
+  if (model === 'fresnel') {
+    // Normalized to the far-field forward peak, so it weights like Fraunhofer
+    const distance = params.distance ?? Infinity;
+    const profile: IntensityProfile = (theta) => fresnelIntensityAt(theta, wavelengthInMedium, particleSize, distance);
+    return { profile, polarized: { perpendicular: profile, parallel: profile }, forwardIntensity: Math.pow(x, 4) / 4 };
+  }
+
+  // In the Fraunhofer limit S(0) = x²/2
+  const profile: IntensityProfile = (theta) => airyIntensityAt(theta, wavelengthInMedium, particleSize);
+  return { profile, polarized: { perpendicular: profile, parallel: profile }, forwardIntensity: Math.pow(x, 4) / 4 };
+};
+
+export const createIntensityProfile = (model: ScatteringModel, params: ScatteringParams): IntensityProfile =>
+  computeScattering(model, params).profile;
+
+// Relative deviation of the ring envelopes above which two models count as
+// diverging
+const DIVERGENCE_THRESHOLD = 0.25;
+const DIVERGENCE_SAMPLES = 2000;
+
+// First scattering angle past the central lobe where two profiles disagree.
+// Individual minima never line up exactly, so both profiles are averaged over
+// one ring period (Δ sin θ ≈ λ/d) before their ratio is compared.
+export const findModelDivergence = (
+  first: IntensityProfile,
+  second: IntensityProfile,
+  params: ScatteringParams,
+  thetaMax: number
+): number | null => {
+  const ringPeriod = params.wavelength / params.mediumIndex / params.particleSize;
+  if (!(ringPeriod > 0) || !(thetaMax > 0)) return null;
+
+  const step = thetaMax / DIVERGENCE_SAMPLES;
+  const window = Math.max(1, Math.round(ringPeriod / step));
+
+  // Prefix sums for O(1) moving averages
+  const firstSums = new Float64Array(DIVERGENCE_SAMPLES + 2);
+  const secondSums = new Float64Array(DIVERGENCE_SAMPLES + 2);
+  for (let i = 0; i <= DIVERGENCE_SAMPLES; i++) {
+    firstSums[i + 1] = firstSums[i] + first(i * step);
+    secondSums[i + 1] = secondSums[i] + second(i * step);
+  }
+
+  // Start beyond the first Airy minimum, sin θ = 1.22·λ/d
+  const start = Math.ceil(Math.asin(Math.min(1, 1.22 * ringPeriod)) / step);
+
+  for (let i = start; i + window <= DIVERGENCE_SAMPLES + 1; i++) {
+    const firstMean = firstSums[i + window] - firstSums[i];
+    const secondMean = secondSums[i + window] - secondSums[i];
+    const ratio = firstMean / secondMean;
+
+    if (Math.abs(Math.log(ratio)) > Math.log(1 + DIVERGENCE_THRESHOLD)) {
+      return (i + window / 2) * step;
+    }
+  }
+
+  return null;
+};
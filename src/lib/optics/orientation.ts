@@ -0,0 +1,284 @@
+import { besselJ1 } from './bessel';
+import { defaultInversionSettings, invertProfile } from './inversion';
+import { IntensityProfile, ScatteringParams } from './models';
+import { AngularPattern } from './shapes';
+import { computeSizeStatistics } from './statistics';
+
+// Elongated and flattened particles tumbling in a flow cell. Each orientation
+// casts a different silhouette on the plane normal to the beam, so the
+// far-field (Fraunhofer) pattern is the average of the silhouettes' patterns
+// over the orientation distribution. Flow drags fiber axes along the flow
+// direction, while the shear across the narrow cell gap (along the beam)
+// turns platelets face-on. The spread is a Watson distribution,
+// f(γ) ∝ exp(κ·cos²γ) about that director, set through the order parameter
+// S = ⟨P₂(cos γ)⟩: 1 for perfect alignment, 0 for random tumbling and −1/2
+// for axes all perpendicular to the director.
+
+export type TumblingForm = 'fiber' | 'platelet';
+
+export const tumblingFormLabels: Record<TumblingForm, string> = {
+  fiber: 'Fibers / Needles',
+  platelet: 'Platelets / Flakes',
+};
+
+export interface OrientationSettings {
+  form: TumblingForm;
+  // Length / diameter for fibers, diameter / thickness for platelets
+  aspectRatio: number;
+  // Order parameter S about the director
+  order: number;
+  // Flow direction on the detector, counterclockwise from +x (degrees)
+  flowAngle: number;
+}
+
+export const defaultOrientationSettings: OrientationSettings = {
+  form: 'fiber',
+  aspectRatio: 5,
+  order: 0,
+  flowAngle: 90,
+};
+
+export const MIN_ORDER = -0.5;
+export const MAX_ORDER = 1;
+
+// Tilt bands from the director to 90°, and azimuths around it
+const POLAR_SAMPLES = 16;
+const AZIMUTH_SAMPLES = 16;
+// Polar table of the averaged pattern: scattering angles from 0 to thetaMax
+// and azimuths over half a turn (the pattern is centrosymmetric)
+const THETA_SAMPLES = 400;
+const PHI_SAMPLES = 90;
+// Search range of the Watson concentration κ
+const MAX_CONCENTRATION = 1000;
+
+type Vector = [number, number, number];
+
+// Symmetry axes (z along the beam) on bands of equal tilt γ around the
+// director, band by band; each band carries its solid angle, so γ = 0 and
+// γ = 90° can hold the whole weight
+const orientationAxes = (director: Vector): Vector[] => {
+  // Two unit vectors normal to the director
+  const [dx, dy, dz] = director;
+  const e1: Vector = Math.abs(dz) < 0.9 ? [-dy, dx, 0] : [1, 0, 0];
+  const e1Norm = Math.hypot(...e1);
+  const u: Vector = [e1[0] / e1Norm, e1[1] / e1Norm, e1[2] / e1Norm];
+  const v: Vector = [dy * u[2] - dz * u[1], dz * u[0] - dx * u[2], dx * u[1] - dy * u[0]];
+
+  const axes: Vector[] = [];
+  for (let i = 0; i < POLAR_SAMPLES; i++) {
+    const tilt = (i * Math.PI) / 2 / (POLAR_SAMPLES - 1);
+    for (let j = 0; j < AZIMUTH_SAMPLES; j++) {
+      const psi = (2 * Math.PI * j) / AZIMUTH_SAMPLES;
+      const a = Math.cos(tilt);
+      const b = Math.sin(tilt) * Math.cos(psi);
+      const c = Math.sin(tilt) * Math.sin(psi);
+      axes.push([a * dx + b * u[0] + c * v[0], a * dy + b * u[1] + c * v[1], a * dz + b * u[2] + c * v[2]]);
+    }
+  }
+  return axes;
+};
+
+// Solid angle of the tilt band around node i
+const bandWeight = (i: number): number => {
+  const step = Math.PI / 2 / (POLAR_SAMPLES - 1);
+  const lower = Math.max(0, (i - 0.5) * step);
+  const upper = Math.min(Math.PI / 2, (i + 0.5) * step);
+  return Math.cos(lower) - Math.cos(upper);
+};
+
+// Watson weights for concentration κ, and the order parameter they give
+const watsonWeights = (concentration: number): { weights: number[]; order: number } => {
+  const cosTilts = Array.from({ length: POLAR_SAMPLES }, (_, i) => Math.cos((i * Math.PI) / 2 / (POLAR_SAMPLES - 1)));
+  // Shift the exponent by its maximum so large |κ| does not overflow
+  const shift = concentration > 0 ? concentration : 0;
+  const weights = cosTilts.map((c, i) => bandWeight(i) * Math.exp(concentration * c * c - shift));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const order = weights.reduce((sum, w, i) => sum + w * (3 * cosTilts[i] ** 2 - 1) / 2, 0) / total;
+  return { weights: weights.map((w) => w / total), order };
+};
+
+// Tilt-band weights whose order parameter matches `order`, by bisection on κ
+export const orientationWeights = (order: number): number[] => {
+  const target = Math.min(MAX_ORDER, Math.max(MIN_ORDER, order));
+  let low = -MAX_CONCENTRATION;
+  let high = MAX_CONCENTRATION;
+  for (let i = 0; i < 60; i++) {
+    const middle = (low + high) / 2;
+    if (watsonWeights(middle).order < target) low = middle;
+    else high = middle;
+  }
+  return watsonWeights((low + high) / 2).weights;
+};
+
+// Silhouette of one orientation: its long in-plane direction and extents
+// along and across it (m), and its area (m²)
+interface Silhouette {
+  weight: number;
+  angle: number;
+  along: number;
+  across: number;
+  area: number;
+}
+
+// A fiber of length L and diameter D tilted out of the detector plane shows
+// a rectangle L·sin β + D·|cos β| long and D wide (β against the beam); a
+// platelet of diameter D and thickness t shows an ellipse D across and
+// D·|cos β| + t·sin β along its tilt
+const silhouette = (
+  settings: OrientationSettings,
+  particleSize: number,
+  [ax, ay, az]: Vector
+): Omit<Silhouette, 'weight'> => {
+  const thickness = particleSize / Math.max(1, settings.aspectRatio || 1);
+  const inPlane = Math.hypot(ax, ay);
+  const angle = inPlane > 1e-9 ? Math.atan2(ay, ax) : 0;
+
+  if (settings.form === 'fiber') {
+    const along = particleSize * inPlane + thickness * Math.abs(az);
+    return { angle, along, across: thickness, area: along * thickness };
+  }
+  const along = particleSize * Math.abs(az) + thickness * inPlane;
+  return { angle, along, across: particleSize, area: (Math.PI / 4) * along * particleSize };
+};
+
+const sinc = (x: number) => (Math.abs(x) < 1e-8 ? 1 : Math.sin(x) / x);
+const jinc = (x: number) => (Math.abs(x) < 1e-8 ? 1 : (2 * besselJ1(x)) / x);
+
+// Orientation-averaged intensity along each of PHI_SAMPLES azimuths over
+// half a turn, relative to the averaged forward peak. particleSize is the
+// fiber length or platelet diameter (m).
+const azimuthProfiles = (
+  settings: OrientationSettings,
+  particleSize: number,
+  wavelength: number
+): IntensityProfile[] => {
+  const flow = (settings.flowAngle * Math.PI) / 180;
+  const director: Vector = settings.form === 'fiber' ? [Math.cos(flow), Math.sin(flow), 0] : [0, 0, 1];
+  const bands = orientationWeights(settings.order);
+  const silhouettes: Silhouette[] = orientationAxes(director)
+    .map((axis, i) => ({
+      weight: bands[Math.floor(i / AZIMUTH_SAMPLES)] / AZIMUTH_SAMPLES,
+      ...silhouette(settings, particleSize, axis),
+    }))
+    .filter((s) => s.weight > 1e-9 && s.area > 0);
+
+  const peak = silhouettes.reduce((sum, s) => sum + s.weight * s.area * s.area, 0);
+  const k = (2 * Math.PI) / wavelength;
+
+  return Array.from({ length: PHI_SAMPLES }, (_, p) => {
+    const phi = (Math.PI * p) / PHI_SAMPLES;
+    // Per silhouette: half-extents along q, in its long and short directions
+    const scales = silhouettes.map((s) => ({
+      along: (Math.cos(phi - s.angle) * s.along) / 2,
+      across: (Math.sin(phi - s.angle) * s.across) / 2,
+      factor: (s.weight * s.area * s.area) / peak,
+    }));
+    return (theta: number) => {
+      const q = k * Math.sin(Math.min(theta, Math.PI / 2));
+      let sum = 0;
+      for (const { along, across, factor } of scales) {
+        const amplitude = settings.form === 'fiber'
+          ? sinc(q * along) * sinc(q * across)
+          : jinc(q * Math.hypot(along, across));
+        sum += factor * amplitude * amplitude;
+      }
+      return sum;
+    };
+  });
+};
+
+// Azimuthal average of the orientation-averaged pattern, evaluated exactly
+// rather than from the display table, whose interpolation fills the minima
+export const tumblingProfile = (
+  settings: OrientationSettings,
+  particleSize: number,
+  wavelength: number
+): IntensityProfile => {
+  const profiles = azimuthProfiles(settings, particleSize, wavelength);
+  return (theta) => profiles.reduce((sum, profile) => sum + profile(theta), 0) / profiles.length;
+};
+
+// Orientation-averaged far field of tumbling particles, tabulated out to
+// thetaMax for display
+export const computeTumblingPattern = (
+  settings: OrientationSettings,
+  particleSize: number,
+  wavelength: number,
+  thetaMax: number
+): AngularPattern => {
+  const profiles = azimuthProfiles(settings, particleSize, wavelength);
+  const thetaStep = Math.max(thetaMax, 1e-6) / (THETA_SAMPLES - 1);
+  const table = new Float64Array(THETA_SAMPLES * PHI_SAMPLES);
+  profiles.forEach((profile, p) => {
+    for (let t = 0; t < THETA_SAMPLES; t++) table[t * PHI_SAMPLES + p] = profile(t * thetaStep);
+  });
+
+  const means = Float64Array.from({ length: THETA_SAMPLES }, (_, t) => {
+    let sum = 0;
+    for (let p = 0; p < PHI_SAMPLES; p++) sum += table[t * PHI_SAMPLES + p];
+    return sum / PHI_SAMPLES;
+  });
+
+  const interpolate = (theta: number, lookup: (t: number) => number): number => {
+    const position = theta / thetaStep;
+    const index = Math.floor(position);
+    if (index >= THETA_SAMPLES - 1) return 0;
+    const fraction = position - index;
+    return lookup(index) * (1 - fraction) + lookup(index + 1) * fraction;
+  };
+
+  const intensityAt = (theta: number, phi: number): number => {
+    const position = ((((phi / Math.PI) * PHI_SAMPLES) % PHI_SAMPLES) + PHI_SAMPLES) % PHI_SAMPLES;
+    const p0 = Math.floor(position);
+    const p1 = (p0 + 1) % PHI_SAMPLES;
+    const fraction = position - p0;
+    return interpolate(theta, (t) => table[t * PHI_SAMPLES + p0] * (1 - fraction) + table[t * PHI_SAMPLES + p1] * fraction);
+  };
+
+  return { intensityAt, azimuthalMean: (theta) => interpolate(theta, (t) => means[t]) };
+};
+
+// Diameter (µm) of the sphere with the particle's volume
+export const volumeEquivalentDiameter = (settings: OrientationSettings, particleSize: number): number => {
+  const thickness = particleSize / Math.max(1, settings.aspectRatio || 1);
+  // (π/6)·d³ = (π/4)·D²·L for a cylinder of either proportion
+  const volume = settings.form === 'fiber'
+    ? thickness * thickness * particleSize
+    : particleSize * particleSize * thickness;
+  return Math.cbrt(1.5 * volume);
+};
+
+export interface EquivalentSphere {
+  // Volume-weighted sizes a sphere-based (Fraunhofer) inversion of the
+  // azimuthally averaged pattern reports (µm)
+  deBrouckereMean: number;
+  d10: number;
+  d50: number;
+  d90: number;
+}
+
+// Angles read by the inversion, log-spaced over two decades up to thetaMax
+const INVERSION_ANGLES = 80;
+
+// What standard laser diffraction analysis, which treats every particle as a
+// sphere, makes of the azimuthally averaged pattern. particleSize (µm) sets
+// the size range.
+export const equivalentSphere = (
+  profile: IntensityProfile,
+  params: ScatteringParams,
+  particleSize: number,
+  thetaMax: number
+): EquivalentSphere | null => {
+  if (!(thetaMax > 0) || !(particleSize > 0)) return null;
+
+  const theta = Array.from({ length: INVERSION_ANGLES }, (_, i) =>
+    thetaMax * Math.pow(10, -2 + (2 * i) / (INVERSION_ANGLES - 1)));
+  const inversion = invertProfile(
+    { theta, intensity: theta.map(profile) },
+    'fraunhofer',
+    params,
+    { ...defaultInversionSettings, minSize: particleSize / 100, maxSize: particleSize * 3 }
+  );
+  const stats = inversion && computeSizeStatistics(inversion.bins, 'volume');
+  return stats && { deBrouckereMean: stats.deBrouckereMean, d10: stats.d10, d50: stats.d50, d90: stats.d90 };
+};
@@ -0,0 +1,47 @@
+// Polarization of the incident laser. A sphere scatters the field component
+// perpendicular to the scattering plane with amplitude S1 and the parallel
+// component with S2. For light linearly polarized at ψ, the scattering plane
+// at azimuth φ sees a parallel share cos²(φ − ψ), so the pattern is brighter
+// along the polarization direction wherever |S2|² > |S1|² and darker where
+// |S1|² wins. Circular and unpolarized light give equal shares at every φ and
+// the same rotationally symmetric pattern.
+
+export type PolarizationState = 'linear' | 'circular' | 'unpolarized';
+
+export const polarizationStateLabels: Record<PolarizationState, string> = {
+  linear: 'Linear',
+  circular: 'Circular',
+  unpolarized: 'Unpolarized',
+};
+
+export interface PolarizationSettings {
+  state: PolarizationState;
+  // Direction of the electric field for linear polarization, counterclockwise
+  // from the horizontal (degrees)
+  angle: number;
+}
+
+export const defaultPolarizationSettings: PolarizationSettings = {
+  state: 'unpolarized',
+  angle: 0,
+};
+
+// Share of the incident power polarized parallel to the scattering plane at
+// azimuth φ (radians, counterclockwise from +x); the rest is perpendicular
+export const parallelShare = (settings: PolarizationSettings, phi: number): number => {
+  if (settings.state !== 'linear') return 0.5;
+  const cos = Math.cos(phi - (settings.angle * Math.PI) / 180);
+  return cos * cos;
+};
+
+// Degree of linear polarization of light scattered from unpolarized
+// illumination, (|S1|² − |S2|²) / (|S1|² + |S2|²)
+export const degreeOfPolarization = (perpendicular: number, parallel: number): number => {
+  const total = perpendicular + parallel;
+  return total > 0 ? (perpendicular - parallel) / total : 0;
+};
+
+export const describePolarization = (settings: PolarizationSettings): string =>
+  settings.state === 'linear'
+    ? `Linear at ${settings.angle}°`
+    : polarizationStateLabels[settings.state];
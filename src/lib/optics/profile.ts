@@ -0,0 +1,53 @@
+// Helpers for sampled radial intensity profiles
+
+export interface ProfileExtrema {
+  // Sample indices of the local minima and maxima, in order of increasing angle
+  minima: number[];
+  maxima: number[];
+}
+
+// Local extrema of a sampled profile. A turning point only counts once the
+// profile has moved away from it by `tolerance` (relative) and by
+// `absoluteTolerance`, so sampling noise and flat stretches are not reported
+// as rings. The central peak at the first sample is not a ring and is never
+// reported.
+export const findExtrema = (
+  values: number[],
+  tolerance: number = 1e-3,
+  absoluteTolerance: number = 0
+): ProfileExtrema => {
+  const minima: number[] = [];
+  const maxima: number[] = [];
+  // +1 while rising, −1 while falling, 0 until the first real change
+  let direction = 0;
+  let extreme = 0;
+
+  for (let i = 1; i < values.length; i++) {
+    const value = values[i];
+    const extremeValue = values[extreme];
+    const threshold = Math.max(tolerance * Math.abs(extremeValue), absoluteTolerance);
+
+    if (direction === 0) {
+      if (Math.abs(value - extremeValue) > threshold) {
+        direction = Math.sign(value - extremeValue);
+        extreme = i;
+      }
+    } else if (direction > 0) {
+      if (value >= extremeValue) {
+        extreme = i;
+      } else if (extremeValue - value > threshold) {
+        maxima.push(extreme);
+        direction = -1;
+        extreme = i;
+      }
+    } else if (value <= extremeValue) {
+      extreme = i;
+    } else if (value - extremeValue > threshold) {
+      minima.push(extreme);
+      direction = 1;
+      extreme = i;
+    }
+  }
+
+  return { minima, maxima };
+};
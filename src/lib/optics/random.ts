@@ -0,0 +1,36 @@
+// Seeded pseudo-random numbers, so random scenes can be reproduced exactly.
+
+// Mulberry32: a small, fast 32-bit generator; returns uniforms in [0, 1)
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal deviate by the Box–Muller transform
+export const gaussianRandom = (random: () => number): number => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Poisson deviate of the given mean: Knuth's product method for small means,
+// a rounded normal approximation beyond
+export const poissonRandom = (random: () => number, mean: number): number => {
+  if (!(mean > 0)) return 0;
+  if (mean > 30) return Math.max(0, Math.round(mean + Math.sqrt(mean) * gaussianRandom(random)));
+
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+};
@@ -0,0 +1,197 @@
+import { RGB, xyzToRGB } from './color';
+import { DisplaySettings, mapIntensity } from './display';
+
+// Radial profiles are tabulated at this many samples per pixel before being
+// painted, so the intensity model is evaluated O(radius) instead of O(area)
+const SAMPLES_PER_PIXEL = 4;
+
+// Tabulate a function of the distance from the center out to the farthest
+// corner, for renderers that need it at every pixel
+export const createRadialTable = (
+  image: ImageData,
+  centerX: number,
+  centerY: number,
+  valueAtRadius: (pixelRadius: number) => number
+): ((pixelRadius: number) => number) => {
+  const { width, height } = image;
+  const maxRadius = Math.hypot(Math.max(centerX, width - centerX), Math.max(centerY, height - centerY));
+  const tableSize = Math.ceil(maxRadius * SAMPLES_PER_PIXEL) + 2;
+  const table = Float64Array.from({ length: tableSize }, (_, i) => valueAtRadius(i / SAMPLES_PER_PIXEL));
+
+  return (pixelRadius) => {
+    const position = Math.min(pixelRadius * SAMPLES_PER_PIXEL, tableSize - 1.000001);
+    const index = Math.floor(position);
+    const fraction = position - index;
+    return table[index] * (1 - fraction) + table[index + 1] * fraction;
+  };
+};
+
+// Every renderer can also record the relative intensity (the luminance Y
+// for broadband sources) it painted at each pixel into `intensities`, one
+// value per pixel in row order, for a camera stage to work from.
+
+// Fill an ImageData with a radially symmetric intensity pattern.
+// `intensityAtRadius` takes a distance from the center in pixels and returns
+// intensity relative to the peak (1 at the brightest point).
+export const renderRadialPattern = (
+  image: ImageData,
+  centerX: number,
+  centerY: number,
+  intensityAtRadius: (pixelRadius: number) => number,
+  display: DisplaySettings,
+  color: RGB,
+  intensities?: Float32Array
+) => {
+  const { width, height, data } = image;
+
+  // Tabulate display brightness as well as raw intensity so the mapping is
+  // applied once per sample; the brightness table reads the raw one exactly
+  // at its sample radii, so the model is evaluated only once
+  const intensityAt = createRadialTable(image, centerX, centerY, intensityAtRadius);
+  const brightnessAt = createRadialTable(image, centerX, centerY, (r) => mapIntensity(intensityAt(r), display));
+
+  for (let y = 0; y < height; y++) {
+    const dy = y + 0.5 - centerY;
+    for (let x = 0; x < width; x++) {
+      const dx = x + 0.5 - centerX;
+      const radius = Math.sqrt(dx * dx + dy * dy);
+      const brightness = brightnessAt(radius);
+      if (intensities) intensities[y * width + x] = intensityAt(radius);
+
+      const offset = (y * width + x) * 4;
+      data[offset] = color[0] * brightness;
+      data[offset + 1] = color[1] * brightness;
+      data[offset + 2] = color[2] * brightness;
+      data[offset + 3] = 255;
+    }
+  }
+};
+
+// Fill an ImageData with a pattern that need not be radially symmetric.
+// `intensityAt` takes the pixel offset from the center (x right, y down) and
+// returns intensity relative to the peak.
+export const renderPattern = (
+  image: ImageData,
+  centerX: number,
+  centerY: number,
+  intensityAt: (dx: number, dy: number) => number,
+  display: DisplaySettings,
+  color: RGB,
+  intensities?: Float32Array
+) => {
+  const { width, height, data } = image;
+
+  for (let y = 0; y < height; y++) {
+    const dy = y + 0.5 - centerY;
+    for (let x = 0; x < width; x++) {
+      const intensity = intensityAt(x + 0.5 - centerX, dy);
+      if (intensities) intensities[y * width + x] = intensity;
+      const brightness = mapIntensity(intensity, display);
+
+      const offset = (y * width + x) * 4;
+      data[offset] = color[0] * brightness;
+      data[offset + 1] = color[1] * brightness;
+      data[offset + 2] = color[2] * brightness;
+      data[offset + 3] = 255;
+    }
+  }
+};
+
+// One wavelength of a broadband source: its tristimulus weight (see
+// lineTristimulus) and its intensity relative to its own forward peak
+export interface SpectralLayer<T> {
+  xyz: RGB;
+  intensityAt: T;
+}
+
+// Display color of summed tristimulus values; brightness follows the
+// luminance Y through the display mapping
+const spectralColor = (x: number, y: number, z: number, display: DisplaySettings): RGB => {
+  const brightness = mapIntensity(y, display);
+  if (!(brightness > 0)) return [0, 0, 0];
+  return xyzToRGB([x, y, z]).map((c) => c * brightness) as RGB;
+};
+
+// Radially symmetric pattern of a broadband source, tabulated like
+// renderRadialPattern
+export const renderRadialSpectrum = (
+  image: ImageData,
+  centerX: number,
+  centerY: number,
+  layers: SpectralLayer<(pixelRadius: number) => number>[],
+  display: DisplaySettings,
+  intensities?: Float32Array
+) => {
+  const { width, height, data } = image;
+  const maxRadius = Math.hypot(Math.max(centerX, width - centerX), Math.max(centerY, height - centerY));
+  const tableSize = Math.ceil(maxRadius * SAMPLES_PER_PIXEL) + 2;
+
+  const table = new Float32Array(tableSize * 3);
+  const luminance = new Float32Array(tableSize);
+  for (let i = 0; i < tableSize; i++) {
+    let x = 0;
+    let y = 0;
+    let z = 0;
+    for (const { xyz, intensityAt } of layers) {
+      const intensity = intensityAt(i / SAMPLES_PER_PIXEL);
+      x += xyz[0] * intensity;
+      y += xyz[1] * intensity;
+      z += xyz[2] * intensity;
+    }
+    table.set(spectralColor(x, y, z, display), i * 3);
+    luminance[i] = y;
+  }
+
+  for (let py = 0; py < height; py++) {
+    const dy = py + 0.5 - centerY;
+    for (let px = 0; px < width; px++) {
+      const dx = px + 0.5 - centerX;
+      const position = Math.sqrt(dx * dx + dy * dy) * SAMPLES_PER_PIXEL;
+      const index = Math.floor(position);
+      const fraction = position - index;
+
+      if (intensities) intensities[py * width + px] = luminance[index] * (1 - fraction) + luminance[index + 1] * fraction;
+
+      const offset = (py * width + px) * 4;
+      for (let c = 0; c < 3; c++) {
+        data[offset + c] = table[index * 3 + c] * (1 - fraction) + table[(index + 1) * 3 + c] * fraction;
+      }
+      data[offset + 3] = 255;
+    }
+  }
+};
+
+// Pattern of a broadband source without radial symmetry; `intensityAt` takes
+// the pixel offset from the center as in renderPattern
+export const renderSpectrum = (
+  image: ImageData,
+  centerX: number,
+  centerY: number,
+  layers: SpectralLayer<(dx: number, dy: number) => number>[],
+  display: DisplaySettings,
+  intensities?: Float32Array
+) => {
+  const { width, height, data } = image;
+
+  for (let py = 0; py < height; py++) {
+    const dy = py + 0.5 - centerY;
+    for (let px = 0; px < width; px++) {
+      const dx = px + 0.5 - centerX;
+      let x = 0;
+      let y = 0;
+      let z = 0;
+      for (const { xyz, intensityAt } of layers) {
+        const intensity = intensityAt(dx, dy);
+        x += xyz[0] * intensity;
+        y += xyz[1] * intensity;
+        z += xyz[2] * intensity;
+      }
+
+      if (intensities) intensities[py * width + px] = y;
+
+      const offset = (py * width + px) * 4;
+      data.set(spectralColor(x, y, z, display), offset);
+      data[offset + 3] = 255;
+    }
+  }
+};
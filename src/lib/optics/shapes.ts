@@ -0,0 +1,214 @@
+import { fft2d } from './fft';
+
+// Non-circular particles. The far-field (Fraunhofer) pattern of an arbitrary
+// silhouette is the squared modulus of its 2D Fourier transform; by Babinet's
+// principle an opaque obstacle and the matching aperture give the same pattern
+// away from the undiffracted beam.
+
+export type ParticleShape =
+  | 'disc'
+  | 'square'
+  | 'rectangle'
+  | 'ellipse'
+  | 'triangle'
+  | 'hexagon'
+  | 'fiber'
+  | 'annulus'
+  | 'custom';
+
+export const particleShapeLabels: Record<ParticleShape, string> = {
+  disc: 'Disc',
+  square: 'Square',
+  rectangle: 'Rectangle',
+  ellipse: 'Ellipse',
+  triangle: 'Triangle',
+  hexagon: 'Hexagon',
+  fiber: 'Fiber / Rod',
+  annulus: 'Annulus',
+  custom: 'Custom Mask',
+};
+
+// Shapes whose width is set by the aspect ratio (length / width)
+export const elongatedShapes: ParticleShape[] = ['rectangle', 'ellipse', 'fiber'];
+
+// Cells per side of the user-drawn mask
+export const MASK_SIZE = 32;
+
+export interface ShapeSettings {
+  shape: ParticleShape;
+  // Length / width for elongated shapes
+  aspectRatio: number;
+  // Counterclockwise rotation (degrees)
+  rotation: number;
+  // Inner / outer diameter of the annulus
+  innerRatio: number;
+  // MASK_SIZE × MASK_SIZE row-major cells, 1 = opaque
+  mask: number[];
+}
+
+export const defaultShapeSettings: ShapeSettings = {
+  shape: 'hexagon',
+  aspectRatio: 4,
+  rotation: 0,
+  innerRatio: 0.5,
+  mask: [],
+};
+
+// Inside test for a regular polygon with `sides` sides and circumradius R
+const insidePolygon = (u: number, v: number, sides: number, circumradius: number, offset: number): boolean => {
+  const apothem = circumradius * Math.cos(Math.PI / sides);
+  for (let j = 0; j < sides; j++) {
+    const angle = offset + ((2 * j + 1) * Math.PI) / sides;
+    if (u * Math.cos(angle) + v * Math.sin(angle) > apothem) return false;
+  }
+  return true;
+};
+
+// Whether (u, v), in units of the particle size with the particle centered on
+// the origin, lies inside the silhouette. The particle size is the longest
+// dimension (side length for the square and triangle).
+export const insideShape = (settings: ShapeSettings, u: number, v: number): boolean => {
+  const rotation = (settings.rotation * Math.PI) / 180;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const x = u * cos + v * sin;
+  const y = -u * sin + v * cos;
+  const aspect = Math.max(1, settings.aspectRatio || 1);
+
+  switch (settings.shape) {
+    case 'disc':
+      return x * x + y * y <= 0.25;
+    case 'square':
+      return Math.abs(x) <= 0.5 && Math.abs(y) <= 0.5;
+    case 'rectangle':
+      return Math.abs(x) <= 0.5 && Math.abs(y) <= 0.5 / aspect;
+    case 'ellipse':
+      return 4 * x * x + 4 * aspect * aspect * y * y <= 1;
+    case 'triangle':
+      // Point up, side length 1
+      return insidePolygon(x, y, 3, 1 / Math.sqrt(3), Math.PI / 6);
+    case 'hexagon':
+      return insidePolygon(x, y, 6, 0.5, 0);
+    case 'fiber': {
+      // Stadium: a rod with hemispherical ends
+      const halfWidth = 0.5 / aspect;
+      const core = Math.max(0, 0.5 - halfWidth);
+      const dx = Math.max(0, Math.abs(x) - core);
+      return dx * dx + y * y <= halfWidth * halfWidth;
+    }
+    case 'annulus': {
+      const r2 = x * x + y * y;
+      const inner = Math.min(0.99, Math.max(0, settings.innerRatio)) / 2;
+      return r2 <= 0.25 && r2 >= inner * inner;
+    }
+    case 'custom': {
+      const col = Math.floor((x + 0.5) * MASK_SIZE);
+      const row = Math.floor((0.5 - y) * MASK_SIZE);
+      if (col < 0 || col >= MASK_SIZE || row < 0 || row >= MASK_SIZE) return false;
+      return (settings.mask[row * MASK_SIZE + col] ?? 0) > 0;
+    }
+  }
+};
+
+// Sample a library shape onto the mask grid, as a starting point for drawing
+export const shapeToMask = (settings: ShapeSettings): number[] =>
+  Array.from({ length: MASK_SIZE * MASK_SIZE }, (_, i) => {
+    const u = ((i % MASK_SIZE) + 0.5) / MASK_SIZE - 0.5;
+    const v = 0.5 - (Math.floor(i / MASK_SIZE) + 0.5) / MASK_SIZE;
+    return insideShape(settings, u, v) ? 1 : 0;
+  });
+
+// Far-field pattern without radial symmetry
+export interface AngularPattern {
+  // Intensity relative to the forward peak in direction (θ, φ); φ is measured
+  // counterclockwise from the +x axis of the object plane
+  intensityAt: (theta: number, phi: number) => number;
+  // Azimuthal average, for the radial profile and ring detectors
+  azimuthalMean: (theta: number) => number;
+}
+
+const AZIMUTH_SAMPLES = 72;
+
+// Look up an n×n FFT power spectrum (unshifted) by direction. binsPerUnit
+// converts sin θ to FFT bins and equals N·Δx / λ.
+export const createGridPattern = (power: Float64Array, n: number, binsPerUnit: number): AngularPattern => {
+  const at = (kx: number, ky: number) => power[(((ky % n) + n) % n) * n + (((kx % n) + n) % n)];
+
+  const intensityAt = (theta: number, phi: number): number => {
+    const s = Math.sin(Math.min(theta, Math.PI / 2)) * binsPerUnit;
+    const fx = s * Math.cos(phi);
+    const fy = s * Math.sin(phi);
+    if (Math.abs(fx) >= n / 2 - 1 || Math.abs(fy) >= n / 2 - 1) return 0;
+
+    // Bilinear interpolation between the four nearest bins
+    const x0 = Math.floor(fx);
+    const y0 = Math.floor(fy);
+    const tx = fx - x0;
+    const ty = fy - y0;
+    return (at(x0, y0) * (1 - tx) + at(x0 + 1, y0) * tx) * (1 - ty)
+      + (at(x0, y0 + 1) * (1 - tx) + at(x0 + 1, y0 + 1) * tx) * ty;
+  };
+
+  const azimuthalMean = (theta: number): number => {
+    let sum = 0;
+    for (let k = 0; k < AZIMUTH_SAMPLES; k++) sum += intensityAt(theta, (2 * Math.PI * k) / AZIMUTH_SAMPLES);
+    return sum / AZIMUTH_SAMPLES;
+  };
+
+  return { intensityAt, azimuthalMean };
+};
+
+const GRID_SIZE = 512;
+// Sub-samples per grid cell side when rasterizing, to soften staircase edges
+const SUPERSAMPLING = 3;
+// The particle spans at least this many, and at most this many, grid cells
+const MIN_CELLS = 48;
+const MAX_CELLS = 128;
+
+// Far-field pattern of a particle `particleSize` across (m) out to thetaMax.
+// The grid spacing is chosen so the FFT covers thetaMax where possible while
+// keeping the silhouette resolved and the fringes several samples wide.
+export const computeShapePattern = (
+  settings: ShapeSettings,
+  particleSize: number,
+  wavelength: number,
+  thetaMax: number
+): AngularPattern => {
+  const n = GRID_SIZE;
+  const nyquistSpacing = wavelength / (2 * Math.sin(Math.min(thetaMax, Math.PI / 2)));
+  const spacing = Math.max(particleSize / MAX_CELLS, Math.min(nyquistSpacing, particleSize / MIN_CELLS));
+
+  // Rasterize around the grid center with partial-coverage edge cells
+  const re = new Float64Array(n * n);
+  const im = new Float64Array(n * n);
+  const halfCells = Math.ceil((particleSize / spacing) * 0.75);
+  let area = 0;
+  for (let row = -halfCells; row <= halfCells; row++) {
+    for (let col = -halfCells; col <= halfCells; col++) {
+      let covered = 0;
+      for (let sy = 0; sy < SUPERSAMPLING; sy++) {
+        for (let sx = 0; sx < SUPERSAMPLING; sx++) {
+          const u = ((col + (sx + 0.5) / SUPERSAMPLING - 0.5) * spacing) / particleSize;
+          const v = ((row + (sy + 0.5) / SUPERSAMPLING - 0.5) * spacing) / particleSize;
+          if (insideShape(settings, u, v)) covered++;
+        }
+      }
+      if (covered === 0) continue;
+      const value = covered / (SUPERSAMPLING * SUPERSAMPLING);
+      // Row index grows with +v so that φ runs counterclockwise
+      re[((row + n) % n) * n + ((col + n) % n)] = value;
+      area += value;
+    }
+  }
+
+  fft2d(re, im, n);
+
+  const power = new Float64Array(n * n);
+  const peak = area * area;
+  for (let i = 0; i < n * n; i++) {
+    power[i] = peak > 0 ? (re[i] * re[i] + im[i] * im[i]) / peak : 0;
+  }
+
+  // Direction cosines to fractional FFT bins: k = sin θ · N·Δx / λ
+  return createGridPattern(power, n, (n * spacing) / wavelength);
+};
@@ -0,0 +1,170 @@
+import { besselJ1 } from './bessel';
+import { SizeBins } from './distribution';
+import { fft2d } from './fft';
+import { createRandom } from './random';
+import { AngularPattern, createGridPattern } from './shapes';
+
+// A cloud of particles at random positions inside the beam. Every particle
+// diffracts the same way, but the far fields add with the path phase
+// exp(−i·q·r_j) of each position, so a single realization shows the ring
+// pattern broken up into speckle grains about λ / beam diameter across.
+// Averaging independent realizations converges on the incoherent sum, which
+// is the smooth ensemble profile the other models draw.
+
+export interface EnsembleSettings {
+  enabled: boolean;
+  particleCount: number;
+  // Diameter of the illuminated region (mm); particles are spread uniformly
+  beamDiameter: number;
+  seed: number;
+  // Independent particle arrangements averaged together
+  realizations: number;
+}
+
+export const defaultEnsembleSettings: EnsembleSettings = {
+  enabled: false,
+  particleCount: 50,
+  beamDiameter: 1,
+  seed: 1,
+  realizations: 1,
+};
+
+// Each realization costs up to MAX_SIZE_GROUPS transforms of the 512² grid on
+// the main thread, so the average is capped well short of full convergence
+export const MAX_REALIZATIONS = 8;
+
+const GRID_SIZE = 512;
+// Particles are binned into at most this many size groups, each with its own
+// FFT; the forward amplitude of every particle is still exact
+const MAX_SIZE_GROUPS = 4;
+// Radial samples per FFT bin in the amplitude look-up tables
+const TABLE_RESOLUTION = 4;
+
+// Draw sizes from number-weighted bins by inverting the cumulative weights
+const drawSizes = (bins: SizeBins, count: number, random: () => number): number[] => {
+  const total = bins.weights.reduce((sum, w) => sum + w, 0);
+  return Array.from({ length: count }, () => {
+    let target = random() * total;
+    for (let i = 0; i < bins.sizes.length; i++) {
+      target -= bins.weights[i];
+      if (target <= 0) return bins.sizes[i];
+    }
+    return bins.sizes[bins.sizes.length - 1];
+  });
+};
+
+// Group sizes on a logarithmic scale; returns the group of each particle and
+// a representative diameter per group (matching the mean d², which sets the
+// forward amplitude)
+const groupSizes = (sizes: number[]): { groups: number[]; diameters: number[] } => {
+  const logMin = Math.log(Math.min(...sizes));
+  const logMax = Math.log(Math.max(...sizes));
+  const count = logMax - logMin < 1e-6 ? 1 : MAX_SIZE_GROUPS;
+  const groups = sizes.map((d) =>
+    count === 1 ? 0 : Math.min(count - 1, Math.floor(((Math.log(d) - logMin) / (logMax - logMin)) * count))
+  );
+
+  const sums = new Array(count).fill(0);
+  const members = new Array(count).fill(0);
+  sizes.forEach((d, i) => {
+    sums[groups[i]] += d * d;
+    members[groups[i]]++;
+  });
+  return { groups, diameters: sums.map((sum, g) => Math.sqrt(sum / Math.max(1, members[g]))) };
+};
+
+// Speckle pattern of `settings.particleCount` particles with sizes drawn from
+// number-weighted bins (µm), averaged over the requested realizations.
+// Intensities are relative to the forward intensity of the incoherent sum, so
+// the averaged pattern lines up with the smooth ensemble profile.
+export const computeSpecklePattern = (
+  settings: EnsembleSettings,
+  numberBins: SizeBins,
+  wavelength: number
+): AngularPattern => {
+  const n = GRID_SIZE;
+  const beamRadius = (settings.beamDiameter * 1e-3) / 2;
+  const spacing = (2 * beamRadius) / n;
+  const binsPerUnit = (n * spacing) / wavelength;
+  const count = Math.max(1, Math.round(settings.particleCount));
+  const realizations = Math.min(MAX_REALIZATIONS, Math.max(1, Math.round(settings.realizations)));
+  const random = createRandom(settings.seed);
+
+  const power = new Float64Array(n * n);
+  if (!(spacing > 0) || numberBins.sizes.length === 0) return createGridPattern(power, n, binsPerUnit);
+
+  // Radial distance of every FFT bin from the origin, in bins
+  const binRadius = new Float64Array(n * n);
+  for (let row = 0; row < n; row++) {
+    const ky = row < n / 2 ? row : row - n;
+    for (let col = 0; col < n; col++) {
+      const kx = col < n / 2 ? col : col - n;
+      binRadius[row * n + col] = Math.hypot(kx, ky);
+    }
+  }
+  const tableLength = Math.ceil((n / Math.SQRT2) * TABLE_RESOLUTION) + 2;
+
+  const fieldRe = new Float64Array(n * n);
+  const fieldIm = new Float64Array(n * n);
+  const re = new Float64Array(n * n);
+  const im = new Float64Array(n * n);
+  let incoherentForward = 0;
+
+  for (let r = 0; r < realizations; r++) {
+    const sizes = drawSizes(numberBins, count, random);
+    const { groups, diameters } = groupSizes(sizes);
+
+    // Uniform positions inside the beam, snapped to the grid
+    const cells = sizes.map(() => {
+      const radius = beamRadius * Math.sqrt(random());
+      const angle = 2 * Math.PI * random();
+      const col = Math.round((radius * Math.cos(angle)) / spacing);
+      const row = Math.round((radius * Math.sin(angle)) / spacing);
+      return (((row % n) + n) % n) * n + (((col % n) + n) % n);
+    });
+
+    fieldRe.fill(0);
+    fieldIm.fill(0);
+    diameters.forEach((diameter, g) => {
+      // Forward amplitude ∝ particle area; overlapping cells simply add
+      re.fill(0);
+      im.fill(0);
+      let members = 0;
+      sizes.forEach((d, i) => {
+        if (groups[i] !== g) return;
+        re[cells[i]] += d * d;
+        members++;
+      });
+      if (members === 0) return;
+
+      fft2d(re, im, n);
+
+      // Airy amplitude 2·J1(x)/x with x = π·d·sin θ / λ, tabulated by radius
+      const scale = (Math.PI * diameter * 1e-6) / (wavelength * binsPerUnit * TABLE_RESOLUTION);
+      const table = Float64Array.from({ length: tableLength }, (_, i) => {
+        const x = i * scale;
+        return x < 1e-8 ? 1 : (2 * besselJ1(x)) / x;
+      });
+
+      for (let i = 0; i < n * n; i++) {
+        const amplitude = table[Math.round(binRadius[i] * TABLE_RESOLUTION)];
+        fieldRe[i] += amplitude * re[i];
+        fieldIm[i] += amplitude * im[i];
+      }
+    });
+
+    for (let i = 0; i < n * n; i++) power[i] += fieldRe[i] * fieldRe[i] + fieldIm[i] * fieldIm[i];
+    incoherentForward += sizes.reduce((sum, d) => sum + d * d * d * d, 0);
+  }
+
+  for (let i = 0; i < n * n; i++) power[i] /= incoherentForward;
+
+  // Direction cosines to FFT bins as for the shaped particles: k = sin θ · N·Δx / λ
+  return createGridPattern(power, n, binsPerUnit);
+};
+
+// Largest scattering angle the position grid resolves before aliasing
+export const speckleAngleLimit = (settings: EnsembleSettings, wavelength: number): number => {
+  const spacing = (settings.beamDiameter * 1e-3) / GRID_SIZE;
+  return Math.asin(Math.min(1, wavelength / (2 * spacing)));
+};
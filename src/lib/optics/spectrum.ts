@@ -0,0 +1,142 @@
+import { RGB, wavelengthToXYZ } from './color';
+
+// Broadband and multi-line sources. Each wavelength diffracts independently
+// (different wavelengths do not interfere), so the pattern is the sum of the
+// monochromatic patterns weighted by the source spectrum. Ring radii scale
+// with λ, so higher orders of different colors overlap and wash out: the
+// colored rings of an atmospheric corona.
+
+export type SourceSpectrum = 'laser' | 'white-led' | 'blackbody' | 'mercury' | 'rgb-laser' | 'custom';
+
+export const sourceSpectrumLabels: Record<SourceSpectrum, string> = {
+  laser: 'Laser (Single Line)',
+  'white-led': 'White LED',
+  blackbody: 'Blackbody / Sunlight',
+  mercury: 'Mercury Lamp',
+  'rgb-laser': 'RGB Laser (450/532/638 nm)',
+  custom: 'Custom Spectrum',
+};
+
+export interface SpectrumSettings {
+  kind: SourceSpectrum;
+  // Blackbody temperature (K); the Sun is close to 5800 K
+  temperature: number;
+  // Relative power at SPECTRUM_WAVELENGTHS, for the custom spectrum
+  custom: number[];
+}
+
+// Sampling grid for continuous spectra and the custom editor (nm)
+export const SPECTRUM_WAVELENGTHS = Array.from({ length: 31 }, (_, i) => 400 + 10 * i);
+
+export const defaultSpectrumSettings: SpectrumSettings = {
+  kind: 'laser',
+  temperature: 5800,
+  custom: SPECTRUM_WAVELENGTHS.map(() => 0.5),
+};
+
+export interface SpectralLine {
+  // Vacuum wavelength (nm)
+  wavelength: number;
+  // Share of the forward diffraction peak; the lines sum to 1
+  weight: number;
+}
+
+// Low-pressure mercury lines in the visible (nm, relative power)
+const MERCURY_LINES: [number, number][] = [
+  [404.7, 0.18],
+  [435.8, 0.4],
+  [546.1, 0.5],
+  [577.0, 0.1],
+  [579.1, 0.11],
+];
+
+const RGB_LASER_LINES: [number, number][] = [
+  [450, 1],
+  [532, 1],
+  [638, 1],
+];
+
+// Second radiation constant h·c / k (m·K)
+const PLANCK_C2 = 1.4388e-2;
+
+const gaussian = (x: number, center: number, sigma: number) => Math.exp(-0.5 * ((x - center) / sigma) ** 2);
+
+// Lines below this fraction of the strongest are dropped
+const MIN_LINE_POWER = 1e-3;
+
+// Source power per line (nm, relative power) before normalization
+const sourcePower = (settings: SpectrumSettings, laserWavelength: number): [number, number][] => {
+  switch (settings.kind) {
+    case 'laser':
+      return [[laserWavelength, 1]];
+    case 'mercury':
+      return MERCURY_LINES;
+    case 'rgb-laser':
+      return RGB_LASER_LINES;
+    case 'white-led':
+      // Blue InGaN emitter plus the broad yellow phosphor it pumps
+      return SPECTRUM_WAVELENGTHS.map((nm) => [nm, gaussian(nm, 450, 9) + 0.45 * gaussian(nm, 560, 50)]);
+    case 'blackbody': {
+      const temperature = Math.max(1, settings.temperature);
+      return SPECTRUM_WAVELENGTHS.map((nm) => {
+        const lambda = nm * 1e-9;
+        return [nm, 1 / (lambda ** 5 * Math.expm1(PLANCK_C2 / (lambda * temperature)))];
+      });
+    }
+    case 'custom':
+      return SPECTRUM_WAVELENGTHS.map((nm, i) => [nm, Math.max(0, settings.custom[i] ?? 0)]);
+  }
+};
+
+// Discrete lines of the source. The forward diffraction peak of a particle
+// scales as 1/λ² for a given power, so the weights include that factor.
+export const spectralLines = (settings: SpectrumSettings, laserWavelength: number): SpectralLine[] => {
+  const power = sourcePower(settings, laserWavelength);
+  const strongest = Math.max(0, ...power.map(([, p]) => p));
+  const kept = power.filter(([nm, p]) => nm > 0 && p > strongest * MIN_LINE_POWER);
+  const weights = kept.map(([nm, p]) => p / (nm * nm));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return total > 0 ? kept.map(([nm], i) => ({ wavelength: nm, weight: weights[i] / total })) : [];
+};
+
+// Source power binned onto SPECTRUM_WAVELENGTHS and scaled to a peak of 1,
+// for display and as the starting point of a custom spectrum
+export const spectrumBars = (settings: SpectrumSettings, laserWavelength: number): number[] => {
+  const bars = SPECTRUM_WAVELENGTHS.map(() => 0);
+  for (const [nm, p] of sourcePower(settings, laserWavelength)) {
+    const index = Math.round((nm - SPECTRUM_WAVELENGTHS[0]) / 10);
+    if (index >= 0 && index < bars.length) bars[index] += p;
+  }
+  const peak = Math.max(...bars);
+  return peak > 0 ? bars.map((b) => +(b / peak).toFixed(3)) : bars;
+};
+
+// CIE XYZ contributed by each line at unit relative intensity, scaled so that
+// the forward peak of the whole spectrum has luminance Y = 1
+export const lineTristimulus = (lines: SpectralLine[]): RGB[] => {
+  const xyz = lines.map((line) => wavelengthToXYZ(line.wavelength).map((c) => c * line.weight) as RGB);
+  const luminance = xyz.reduce((sum, [, y]) => sum + y, 0);
+  return luminance > 0 ? xyz.map((c) => c.map((v) => v / luminance) as RGB) : xyz;
+};
+
+export interface SpectralWidth {
+  // Power-weighted mean wavelength and RMS spread (nm)
+  mean: number;
+  spread: number;
+  // Coherence length λ̄² / Δλ (µm); null for a single line
+  coherenceLength: number | null;
+  // Ring order near which neighboring colors overlap by a full ring spacing
+  resolvedOrder: number | null;
+}
+
+export const spectralWidth = (settings: SpectrumSettings, laserWavelength: number): SpectralWidth => {
+  const power = sourcePower(settings, laserWavelength).filter(([, p]) => p > 0);
+  const total = power.reduce((sum, [, p]) => sum + p, 0);
+  if (!(total > 0)) return { mean: laserWavelength, spread: 0, coherenceLength: null, resolvedOrder: null };
+
+  const mean = power.reduce((sum, [nm, p]) => sum + nm * p, 0) / total;
+  const spread = Math.sqrt(power.reduce((sum, [nm, p]) => sum + (nm - mean) ** 2 * p, 0) / total);
+  if (!(spread > 0)) return { mean, spread: 0, coherenceLength: null, resolvedOrder: null };
+
+  return { mean, spread, coherenceLength: (mean * mean) / spread / 1000, resolvedOrder: mean / spread };
+};
@@ -0,0 +1,135 @@
+import { SizeBins, SizeWeighting, convertBasis, sizeWeightingLabels } from './distribution';
+
+// Standard laser diffraction size statistics (ISO 13320 / ISO 9276-2).
+// Sizes are in micrometers.
+
+export interface SizeStatistics {
+  // Percentile sizes in the chosen weighting
+  weighting: SizeWeighting;
+  d10: number;
+  d50: number;
+  d90: number;
+  // (D90 − D10) / D50
+  span: number;
+  // Sauter mean diameter D[3,2] = Σ n d³ / Σ n d²
+  sauterMean: number;
+  // De Brouckère mean diameter D[4,3] = Σ n d⁴ / Σ n d³
+  deBrouckereMean: number;
+  // Surface per unit particle volume, 6 / D[3,2] (m²/cm³)
+  volumeSurfaceArea: number;
+  // Surface per unit mass (m²/g), when the density is known
+  specificSurfaceArea: number | null;
+}
+
+// Size below which a fraction p of the weight lies. Each bin's weight is
+// spread evenly in log d between the geometric midpoints to its neighbours.
+export const percentileSize = ({ sizes, weights }: SizeBins, p: number): number => {
+  const n = sizes.length;
+  if (n === 0) return NaN;
+  if (n === 1) return sizes[0];
+
+  const logSizes = sizes.map(Math.log);
+  const edges = [
+    logSizes[0] - (logSizes[1] - logSizes[0]) / 2,
+    ...logSizes.slice(1).map((logSize, i) => (logSize + logSizes[i]) / 2),
+    logSizes[n - 1] + (logSizes[n - 1] - logSizes[n - 2]) / 2,
+  ];
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const target = p * total;
+  let cumulative = 0;
+  for (let i = 0; i < n; i++) {
+    if (weights[i] > 0 && cumulative + weights[i] >= target) {
+      const t = (target - cumulative) / weights[i];
+      return Math.exp(edges[i] + t * (edges[i + 1] - edges[i]));
+    }
+    cumulative += weights[i];
+  }
+  return Math.exp(edges[n]);
+};
+
+// Ratio of consecutive moments Σ n dᵏ⁺¹ / Σ n dᵏ of a number distribution
+const momentRatio = ({ sizes, weights }: SizeBins, k: number): number => {
+  let upper = 0;
+  let lower = 0;
+  sizes.forEach((size, i) => {
+    upper += weights[i] * Math.pow(size, k + 1);
+    lower += weights[i] * Math.pow(size, k);
+  });
+  return upper / lower;
+};
+
+export const computeSizeStatistics = (
+  bins: SizeBins,
+  basis: SizeWeighting,
+  // Particle density (g/cm³)
+  density: number | null = null,
+  weighting: SizeWeighting = 'volume'
+): SizeStatistics | null => {
+  if (bins.sizes.length === 0 || !bins.weights.some((w) => w > 0)) return null;
+
+  const weighted = convertBasis(bins, basis, weighting);
+  const byNumber = convertBasis(bins, basis, 'number');
+  const d10 = percentileSize(weighted, 0.1);
+  const d50 = percentileSize(weighted, 0.5);
+  const d90 = percentileSize(weighted, 0.9);
+  const sauterMean = momentRatio(byNumber, 2);
+  const volumeSurfaceArea = 6 / sauterMean;
+
+  return {
+    weighting,
+    d10,
+    d50,
+    d90,
+    span: (d90 - d10) / d50,
+    sauterMean,
+    deBrouckereMean: momentRatio(byNumber, 3),
+    volumeSurfaceArea,
+    specificSurfaceArea: density && density > 0 ? volumeSurfaceArea / density : null,
+  };
+};
+
+const percentilePrefixes: Record<SizeWeighting, string> = {
+  number: 'Dn',
+  surface: 'Ds',
+  volume: 'Dv',
+};
+
+const formatSize = (size: number) => (size < 10 ? size.toFixed(2) : size.toFixed(1));
+
+// Labelled values in display order, shared by the panel, caption and exports
+export const statisticsEntries = (stats: SizeStatistics): [string, string][] => {
+  const prefix = percentilePrefixes[stats.weighting];
+  return [
+    [`${prefix}10 (µm)`, formatSize(stats.d10)],
+    [`${prefix}50 (µm)`, formatSize(stats.d50)],
+    [`${prefix}90 (µm)`, formatSize(stats.d90)],
+    ['Span', stats.span.toFixed(3)],
+    ['D[3,2] (µm)', formatSize(stats.sauterMean)],
+    ['D[4,3] (µm)', formatSize(stats.deBrouckereMean)],
+    ['Surface Area (m²/cm³)', stats.volumeSurfaceArea.toFixed(3)],
+    ['Specific Surface (m²/g)', stats.specificSurfaceArea === null ? '–' : stats.specificSurfaceArea.toFixed(3)],
+  ];
+};
+
+// One-line summary for image captions
+export const formatStatisticsSummary = (stats: SizeStatistics): string => {
+  const prefix = percentilePrefixes[stats.weighting];
+  return `${prefix}10/50/90: ${formatSize(stats.d10)} / ${formatSize(stats.d50)} / ${formatSize(stats.d90)} µm, `
+    + `span ${stats.span.toFixed(2)}, D[3,2] ${formatSize(stats.sauterMean)} µm, `
+    + `D[4,3] ${formatSize(stats.deBrouckereMean)} µm`
+    + (stats.specificSurfaceArea === null ? '' : `, SSA ${stats.specificSurfaceArea.toFixed(3)} m²/g`);
+};
+
+// Statistics header followed by the binned distribution in all three weightings
+export const sizeDistributionCsv = (bins: SizeBins, basis: SizeWeighting, stats: SizeStatistics): string => {
+  const weightings: SizeWeighting[] = ['number', 'surface', 'volume'];
+  const converted = weightings.map((weighting) => convertBasis(bins, basis, weighting));
+  const rows = [
+    ...statisticsEntries(stats).map(([label, value]) => `# ${label},${value}`),
+    ['Diameter (µm)', ...weightings.map((w) => `${sizeWeightingLabels[w]} (%)`)].join(','),
+    ...bins.sizes.map((size, i) =>
+      [size.toPrecision(5), ...converted.map((c) => (c.weights[i] * 100).toPrecision(5))].join(',')),
+  ];
+  return rows.join('\n');
+};